@@ -1,13 +1,67 @@
-import * as fs from "fs";
+import * as crypto from "crypto";
 import path from "path";
 import ts, { CompilerOptions } from "typescript";
 
 import { createDefaultMapFromNodeModules } from "@typescript/vfs";
-import { ISourceManager, FileState } from "./types";
+import {
+    ISourceManager,
+    ConflictPolicy,
+    ConflictResolution,
+    DefinitionOrigin,
+    FileEncoding,
+    FileState,
+    ICodeFixOptions,
+    ICompletion,
+    IDefinition,
+    IDiagnosticsOptions,
+    IEmitResult,
+    IFileChange,
+    IFileChangeTracker,
+    IFileConflict,
+    IFileDiff,
+    ILineColumn,
+    ILoadOptions,
+    IQuickInfo,
+    IRenameOptions,
+    ISignatureHelp,
+    IStorageEntry,
+    IStorageProvider,
+    ITextRange,
+    IVFSEvent,
+    IVFSOptions,
+    IWatchOptions,
+    IWriteOptions,
+    VFSEventType
+} from "./types";
+import { ChangeJournal } from "./vfs-internals/ChangeJournal";
+import { DependencyGraph } from "./vfs-internals/DependencyGraph";
+import { DiffBuilder } from "./vfs-internals/DiffBuilder";
+import { EditorConfigResolver } from "./vfs-internals/EditorConfigResolver";
+import { FileContentCodec } from "./vfs-internals/FileContentCodec";
+import { PhysicalStorageProvider } from "./vfs-internals/PhysicalStorageProvider";
+import { ProjectConfigParser } from "./vfs-internals/ProjectConfigParser";
+import { TemplateRenderer } from "./vfs-internals/TemplateRenderer";
+import { TextMerger } from "./vfs-internals/TextMerger";
+import { TreeImage } from "./vfs-internals/TreeImage";
+import { VFSEventEmitter } from "./vfs-internals/VFSEventEmitter";
+import { GlobMatcher } from "./vfs-internals/GlobMatcher";
+import { IgnoreMatcher } from "./vfs-internals/IgnoreMatcher";
+import { VFSSnapshot } from "./vfs-internals/VFSSnapshot";
 import { TypeScriptSourceManager } from "./vfs-internals/TypeScriptSourceManager";
 import { VirtualDirectory } from "./vfs-internals/VirtualDirectory";
 import { VirtualFile } from "./vfs-internals/VirtualFile";
-import { FORWARD_SLASH_TOKEN, NODE_MODULES, SUPPORTED_EXTENSIONS } from "./global-constants";
+import { VirtualSymlink } from "./vfs-internals/VirtualSymlink";
+import {
+    DOT_TOKEN,
+    EDITOR_CONFIG,
+    FORWARD_SLASH_TOKEN,
+    GIT_DIR,
+    GIT_IGNORE,
+    NODE_MODULES,
+    SUPPORTED_EXTENSIONS,
+    TSCONFIG_FILE,
+    UNDO_HISTORY_LIMIT
+} from "./global-constants";
 interface IFileSystem {
     fileExists(filePath: string): boolean;
     readFile(filePath: string, encoding?: string): string | null;
@@ -15,21 +69,64 @@ interface IFileSystem {
     directoryExists(dirPath: string): boolean;
 
     /**
-     * Returns a list of file paths under a directory based on a match pattern
-     * @param dirPath Root dir to search in
-     * @param pattern Pattern to match
+     * Returns a list of file paths based on match patterns
+     * @param patterns Patterns to match
      */
-    glob(dirPath: string, pattern: string): string[];
+    glob(patterns: string | string[]): string[];
 }
 
-export class TypeScriptVFS implements IFileSystem {
+interface IStorageOperation {
+    kind: 'remove' | 'write' | 'link';
+    /** The path of the file in the virtual file system */
+    path: string;
+    content?: Buffer;
+    /** The target of the symbolic link to create */
+    linkTarget?: string;
+}
+
+/**
+ * The state of a file in the storage when it was loaded
+ */
+interface IFileBaseline {
+    hash: string;
+    modifiedTime: number | null;
+    /** The loaded bytes, they are only kept as the base of three-way merges */
+    content?: Buffer;
+}
+
+/**
+ * What undoing or redoing a call brings back: the state of the paths it changed and the pending changes before it
+ */
+interface IHistoryEntry {
+    image: TreeImage;
+    changeJournal: ChangeJournal;
+}
+
+export class TypeScriptVFS implements IFileSystem, IFileChangeTracker {
+    public readonly storage: IStorageProvider;
+    private readonly loadOptions: ILoadOptions;
+    private readonly writeOptions: IWriteOptions;
+    /** Whether the files of the storage are loaded, a VFS at the root of the physical file system without a storage starts empty */
+    private readonly loadsStorage: boolean;
+
+    /**
+     * @param root The directory the files are loaded from, the VFS starts empty at the root of the physical file system
+     * unless a storage is passed
+     * @param options The storage of the files and how they are loaded from and written to it
+     */
     constructor(
         public readonly root = FORWARD_SLASH_TOKEN,
         private readonly compilerOptions: CompilerOptions = {},
         private _sourceManager?: ISourceManager,
         private readonly supportedExtensions = SUPPORTED_EXTENSIONS,
-        private readonly autoFlush = true
-    ) { }
+        private readonly autoFlush = true,
+        options: IVFSOptions = {}
+    ) {
+        this.storage = options.storage || new PhysicalStorageProvider(root);
+        this.loadOptions = options.load || {};
+        this.writeOptions = options.write || {};
+        this.loadsStorage = !!options.storage || path.posix.resolve(root) !== FORWARD_SLASH_TOKEN;
+    }
 
     private readonly _defaultCompilerOptions: CompilerOptions = {
         baseUrl: this.root,
@@ -39,33 +136,93 @@ export class TypeScriptVFS implements IFileSystem {
         lib: ["es2018", "dom"]
     };
 
-    private readonly _watchedFilesMap: Map<FileState, string> = new Map<FileState, string>();
+    private _changeJournal: ChangeJournal = new ChangeJournal();
+    private readonly _snapshots: Map<string, VFSSnapshot> = new Map<string, VFSSnapshot>();
+    private readonly _undoStack: IHistoryEntry[] = [];
+    private readonly _redoStack: IHistoryEntry[] = [];
+    private _historyDepth = 0;
+    /** The state before the running mutation of the paths it touches, the directories loaded while it runs add their contents */
+    private _historyImage: TreeImage | undefined;
+    private _flushRequested = false;
+    private readonly _events: VFSEventEmitter = new VFSEventEmitter();
+    private readonly _codec: FileContentCodec = new FileContentCodec();
+    private readonly _baselines: Map<string, IFileBaseline> = new Map<string, IFileBaseline>();
+    private readonly _projectConfigParser: ProjectConfigParser = new ProjectConfigParser(
+        filePath => this.readConfigFile(filePath),
+        () => [...this.fsMap.keys()]
+    );
+    /** The paths of the tsconfig file and the configs it extends when it was last parsed */
+    private _configFiles: string[] = [];
+    /** The content of the config files and the paths of the files of the program the project config was parsed from */
+    private _projectConfigInputs: string | undefined;
 
     private get sourceManager(): ISourceManager {
         if (!this._sourceManager) {
-            this._sourceManager = new TypeScriptSourceManager(this.root, this.fsMap, this.getCompilerOptions());
+            this._sourceManager = new TypeScriptSourceManager(
+                this.fsMap,
+                this.getCompilerOptions(),
+                configPath => this._projectConfigParser.parse(configPath),
+                this.storage
+            );
         }
         return this._sourceManager;
     }
 
+    private _projectConfig: ts.ParsedCommandLine | null = null;
+    /**
+     * The parsed tsconfig file of the project or null if there is none, it is parsed again on flush when it changed
+     */
+    public get projectConfig(): ts.ParsedCommandLine | null {
+        return this._projectConfig;
+    }
+
+    private _ignoreMatcher: IgnoreMatcher | undefined;
+    private get ignoreMatcher(): IgnoreMatcher {
+        if (!this._ignoreMatcher) {
+            this._ignoreMatcher = new IgnoreMatcher(
+                [NODE_MODULES, GIT_DIR, ...(this.loadOptions.ignore || [])],
+                this.loadOptions.useGitIgnore === false
+                    ? undefined
+                    : (dirPath) => this.storage.readFile(path.posix.join(dirPath, GIT_IGNORE))?.toString() ?? null
+            );
+        }
+        return this._ignoreMatcher;
+    }
+
     private _rootDir: VirtualDirectory | undefined;
+    /**
+     * The root directory of the virtual file system. The contents of the directories
+     * are loaded from the storage the first time they are accessed.
+     */
     public get rootDir(): VirtualDirectory {
         if (!this._rootDir) {
-            try {
-                this._rootDir = this.loadPhysicalDirectoryToVirtual(
-                    this.root,
-                    new VirtualDirectory(this.root, null, this.sourceManager)
-                );
-            } catch (err) {
-                this._rootDir = new VirtualDirectory(this.root, null, this.sourceManager);
-            }
-            if (this.autoFlush) {
-                this.flush();
-            }
+            this._rootDir = this.createRootDir();
+            this.requestFlush();
         }
         return this._rootDir;
     }
 
+    private _dependencyGraph: DependencyGraph | undefined;
+    /**
+     * The import graph of the TypeScript files, the imports are resolved with the compiler options of the VFS
+     * so that `paths` and index files resolve like in the program. It follows the changes of the files when it is queried.
+     */
+    public get dependencyGraph(): DependencyGraph {
+        if (!this._dependencyGraph) {
+            this._dependencyGraph = new DependencyGraph(
+                () => {
+                    this.loadAll();
+                    if (this.autoFlush) {
+                        this.flush();
+                    }
+                    return this.fsMap;
+                },
+                (moduleName, containingFile) => this.resolveModule(moduleName, containingFile)
+            );
+        }
+        return this._dependencyGraph;
+    }
+
     private _fsMap: Map<string, string> | undefined;
     private get fsMap() {
         if (!this._fsMap) {
@@ -74,18 +231,45 @@ export class TypeScriptVFS implements IFileSystem {
         return this._fsMap;
     }
 
-    public createFile(name: string, content: string): VirtualFile {
-        const newFile = this.rootDir.addFile(name, content);
-        this._watchedFilesMap.set(FileState.New, newFile.path);
-        if (this.autoFlush) {
-            this.flush();
-        }
+    /**
+     * Creates a file or replaces an existing one
+     * @param content The text of the file or its bytes, the encoding of bytes is detected
+     */
+    public createFile(name: string, content: string | Buffer): VirtualFile {
+        return this.trackHistory(() => {
+            this._historyImage?.addFile(this.rootDir, name);
+            const existingFile = this.findFile(name);
+            const addedDirs = this.getMissingDirectories(path.posix.dirname(path.posix.join(FORWARD_SLASH_TOKEN, name)));
+            const newFile = this.rootDir.addFile(name, content);
+            addedDirs.forEach(dirPath => this._events.emit({ type: VFSEventType.DirectoryAdded, path: dirPath }));
+            if (existingFile) {
+                this._changeJournal.recordModify(newFile.path);
+                this._events.emit({
+                    type: VFSEventType.FileModified,
+                    path: newFile.path,
+                    content: newFile.content,
+                    previousContent: existingFile.content
+                });
+            } else {
+                this._changeJournal.recordCreate(newFile.path);
+                this._events.emit({ type: VFSEventType.FileCreated, path: newFile.path, content: newFile.content });
+            }
+            this.requestFlush();
 
-        return newFile;
+            return newFile;
+        });
     }
 
+    /**
+     * Checks if a file exists, files that are not loaded because they are ignored or too large are looked up in the storage
+     */
     public fileExists(filePath: string): boolean {
-        return this.findFile(filePath) !== null;
+        if (this.findFile(filePath)) {
+            return true;
+        }
+
+        const storagePath = path.posix.join(FORWARD_SLASH_TOKEN, filePath);
+        return this.isSkipped(storagePath) && this.storage.fileExists(storagePath);
     }
 
     public findFile(filePath: string): VirtualFile | null {
@@ -101,17 +285,79 @@ export class TypeScriptVFS implements IFileSystem {
         return file.content;
     }
 
-    public writeFile(filePath: string, content: string): VirtualFile | null {
+    /**
+     * Returns the bytes of a file in its encoding
+     */
+    public readFileBuffer(filePath: string): Buffer | null {
+        return this.findFile(filePath)?.buffer || null;
+    }
+
+    /**
+     * @param content The new text of the file or its bytes, the encoding of bytes is detected
+     */
+    public writeFile(filePath: string, content: string | Buffer): VirtualFile | null {
+        return this.trackHistory(() => {
+            const file = this.findFile(filePath);
+            if (file) {
+                const previousContent = file.content;
+                this._historyImage?.addModifiedFile(file);
+                if (Buffer.isBuffer(content)) {
+                    file.buffer = content;
+                } else {
+                    file.content = content;
+                }
+                this._changeJournal.recordModify(file.path);
+                this._events.emit({ type: VFSEventType.FileModified, path: file.path, content: file.content, previousContent });
+                this.requestFlush();
+            }
+
+            return file;
+        });
+    }
+
+    /**
+     * Applies AST transformers to a file and writes the printed result back to it
+     * @param filePath The path of the file to transform
+     * @param transformers The transformers to run over the source file of the file
+     * @returns Whether the content of the file changed
+     */
+    public updateSourceFile(filePath: string, ...transformers: ts.TransformerFactory<ts.SourceFile>[]): boolean {
+        const file = this.findFile(filePath);
+        if (!file) {
+            return false;
+        }
+
+        return this.trackHistory(() => file.updateSourceFile(...transformers));
+    }
+
+    public markModified(filePath: string, previousContent?: string): void {
         const file = this.findFile(filePath);
         if (file) {
-            file.content = content;
-            this._watchedFilesMap.set(FileState.Modified, file.path);
-            if (this.autoFlush) {
-                this.flush();
-            }
+            this._historyImage?.addModifiedFile(file, previousContent);
+            this._changeJournal.recordModify(file.path);
+            this._events.emit({ type: VFSEventType.FileModified, path: file.path, content: file.content, previousContent });
+            this.requestFlush();
         }
+    }
+
+    /**
+     * Subscribes to the changes of files and directories, the listener is called as soon as a change happens
+     * @param listener Receives every change matching the options
+     * @param options Limits the reported changes to a directory or to glob patterns
+     * @returns A function that removes the subscription
+     */
+    public watch(listener: (event: IVFSEvent) => void, options?: IWatchOptions): () => void {
+        return this._events.subscribe(listener, options);
+    }
 
-        return file;
+    /**
+     * Subscribes to the changes of files and directories, the listener receives the changes once per `flush()`
+     * @param listener Receives the changes matching the options made since the previous flush
+     * @param options Limits the reported changes to a directory or to glob patterns
+     * @returns A function that removes the subscription
+     */
+    public watchBatched(listener: (events: IVFSEvent[]) => void, options?: IWatchOptions): () => void {
+        return this._events.subscribeBatched(listener, options);
     }
 
     public findFiles(fileName: string): VirtualFile[] {
@@ -119,72 +365,343 @@ export class TypeScriptVFS implements IFileSystem {
     }
 
     public copyFile(filePath: string, targetDirPath: string, newFileName?: string): VirtualFile | null {
-        if (!targetDirPath) {
-            return null;
-        }
+        return this.trackHistory(() => {
+            if (!targetDirPath) {
+                return null;
+            }
 
-        const file = this.findFile(filePath);
-        if (!file) {
-            return null;
-        }
+            const file = this.findFile(filePath);
+            if (!file) {
+                return null;
+            }
 
-        const target = this.findDirectory(targetDirPath);
-        if (!target) {
-            return null;
-        }
+            const target = this.findDirectory(targetDirPath);
+            if (!target) {
+                return null;
+            }
 
-        const fileCopy = file.parentDir.copyFile(file, target, newFileName);
-        if (fileCopy && this.autoFlush) {
-            this.flush();
-        }
+            const fileCopy = file.parentDir.copyFile(file, target, newFileName);
+            if (fileCopy) {
+                // the copy gets a name that is not taken
+                this._historyImage?.addNewFile(fileCopy.path);
+                this._changeJournal.recordCreate(fileCopy.path);
+                this._events.emit({ type: VFSEventType.FileCreated, path: fileCopy.path, content: fileCopy.content });
+                this.requestFlush();
+            }
 
-        return fileCopy;
+            return fileCopy;
+        });
     }
 
-    public moveFile(filePath: string, targetDirPath: string, newFileName?: string): VirtualFile | null {
-        if (!targetDirPath) {
-            return null;
-        }
+    /**
+     * Moves a file to another directory and rewrites the relative imports of and to it
+     * @param filePath The path of the file to move
+     * @param targetDirPath The path of the directory to move the file to
+     * @param newFileName Optional new name of the file
+     * @param updateImports Whether to rewrite the relative imports, pass `false` to only move the file
+     */
+    public moveFile(filePath: string, targetDirPath: string, newFileName?: string, updateImports = true): VirtualFile | null {
+        return this.trackHistory(() => {
+            if (!targetDirPath) {
+                return null;
+            }
 
-        const file = this.findFile(filePath);
-        if (!file) {
-            return null;
-        }
+            const file = this.findFile(filePath);
+            if (!file) {
+                return null;
+            }
 
-        const target = this.findDirectory(targetDirPath);
-        if (!target) {
-            return null;
-        }
+            const target = this.findDirectory(targetDirPath);
+            if (!target) {
+                return null;
+            }
 
-        const movedFile = file.parentDir.moveFile(file, target, newFileName);
-        if (movedFile && this.autoFlush) {
-            this.flush();
-        }
+            if (updateImports) {
+                // the files importing the moved one might not be loaded yet
+                this.loadAll();
+                if (this.autoFlush) {
+                    this.flush();
+                }
+            }
+
+            const originalPath = file.path;
+            // the file the moved one takes the place of is deleted from the storage
+            const replacedPath = target.files.get(newFileName || file.name)?.path;
+            this._historyImage?.addFile(this.rootDir, originalPath);
+            this._historyImage?.addFile(this.rootDir, path.posix.join(target.path, newFileName || file.name));
+            const movedFile = file.parentDir.moveFile(file, target, newFileName, updateImports);
+            if (movedFile) {
+                if (replacedPath && replacedPath !== originalPath) {
+                    this._changeJournal.recordDelete(replacedPath);
+                }
+                this._changeJournal.recordMove(originalPath, movedFile.path);
+                this._events.emit({
+                    type: VFSEventType.FileMoved,
+                    path: movedFile.path,
+                    previousPath: originalPath,
+                    content: movedFile.content
+                });
+                this.requestFlush();
+            }
 
-        return movedFile;
+            return movedFile;
+        });
     }
 
     public deleteFile(filePath: string): boolean {
-        const key = Array.from(this._watchedFilesMap.keys()).find(k => filePath.includes(k)) || filePath;
-        const file = this.findFile(key);
-        let success = false;
-        if (file) {
-            success = file.parentDir.removeFile(file);
-        }
-        if (success && this.autoFlush) {
-            this.flush();
-            this._watchedFilesMap.set(FileState.Deleted, key);
-        }
+        return this.trackHistory(() => {
+            const file = this.findFile(filePath);
+            let success = false;
+            if (file) {
+                this._historyImage?.addFile(this.rootDir, file.path);
+                success = file.parentDir.removeFile(file);
+            }
+            if (success) {
+                this._changeJournal.recordDelete(file!.path);
+                this._events.emit({ type: VFSEventType.FileDeleted, path: file!.path, content: file!.content });
+                this.requestFlush();
+            }
+
+            return success;
+        });
+    }
+
+    /**
+     * Creates a symbolic link, `finalize()` creates it in the storage
+     * @param linkPath The path of the link
+     * @param target The path the link points to, relative paths start at the directory of the link
+     */
+    public createSymlink(linkPath: string, target: string): VirtualSymlink {
+        return this.trackHistory(() => {
+            this._historyImage?.addSymlink(this.rootDir, linkPath);
+            const addedDirs = this.getMissingDirectories(path.posix.dirname(path.posix.join(FORWARD_SLASH_TOKEN, linkPath)));
+            const link = this.rootDir.addSymlink(linkPath, target);
+            addedDirs.forEach(dirPath => this._events.emit({ type: VFSEventType.DirectoryAdded, path: dirPath }));
+            this._changeJournal.recordCreate(link.path);
+            this._events.emit({ type: VFSEventType.SymlinkCreated, path: link.path, target: link.target });
+            this.requestFlush();
+
+            return link;
+        });
+    }
 
-        return success;
+    public findSymlink(linkPath: string): VirtualSymlink | null {
+        return this.rootDir.findSymlink(linkPath);
+    }
+
+    /**
+     * Removes a symbolic link, its target is kept
+     */
+    public deleteSymlink(linkPath: string): boolean {
+        return this.trackHistory(() => {
+            const link = this.findSymlink(linkPath);
+            if (!link) {
+                return false;
+            }
+
+            this._historyImage?.addSymlink(this.rootDir, link.path);
+            link.parentDir.symlinks.delete(link.name);
+            this._changeJournal.recordDelete(link.path);
+            this._events.emit({ type: VFSEventType.SymlinkDeleted, path: link.path, target: link.target });
+            this.requestFlush();
+
+            return true;
+        });
     }
 
     public addDirectory(dirPath: string): VirtualDirectory {
-        return this.rootDir.getOrCreateSubDir(dirPath, this.sourceManager);
+        const existingDir = this.findDirectory(dirPath);
+        if (existingDir) {
+            return existingDir;
+        }
+
+        return this.trackHistory(() => {
+            this._historyImage?.addTree(this.rootDir, dirPath);
+            const addedDirs = this.getMissingDirectories(path.posix.join(FORWARD_SLASH_TOKEN, dirPath));
+            const dir = this.rootDir.getOrCreateSubDir(dirPath, this.sourceManager);
+            addedDirs.forEach(addedDirPath => this._events.emit({ type: VFSEventType.DirectoryAdded, path: addedDirPath }));
+            if (addedDirs.length) {
+                this.requestFlush();
+            }
+
+            return dir;
+        });
     }
 
     public removeDirectory(dirPath: string, force: boolean = false): boolean {
-        return this.rootDir.removeSubDirectory(dirPath, force);
+        return this.trackHistory(() => {
+            const dir = this.findDirectory(dirPath);
+            const removedFiles = dir ? this.collectFiles(dir) : [];
+            const removedDirs = dir ? this.collectDirectories(dir) : [];
+            const removedLinks = dir ? this.collectSymlinks(dir).map(linkPath => this.findSymlink(linkPath)!) : [];
+            if (dir) {
+                this._historyImage?.addTree(this.rootDir, dir.path);
+            }
+            const success = this.rootDir.removeSubDirectory(dirPath, force);
+            if (success) {
+                removedFiles.forEach(file => {
+                    this._changeJournal.recordDelete(file.path);
+                    this._events.emit({ type: VFSEventType.FileDeleted, path: file.path, content: file.content });
+                });
+                removedLinks.forEach(link => {
+                    this._changeJournal.recordDelete(link.path);
+                    this._events.emit({ type: VFSEventType.SymlinkDeleted, path: link.path, target: link.target });
+                });
+                // nested directories are reported before the ones containing them
+                removedDirs.reverse().forEach(removedDir => {
+                    this._changeJournal.recordDirectoryRemoval(removedDir.path);
+                    this._events.emit({ type: VFSEventType.DirectoryRemoved, path: removedDir.path });
+                });
+                this.requestFlush();
+            }
+
+            return success;
+        });
+    }
+
+    /**
+     * Moves a directory with all of its contents into another directory and rewrites the relative imports of and to its files
+     * @param dirPath The path of the directory to move
+     * @param targetDirPath The path of the directory to move the directory into
+     * @param newDirName Optional new name of the directory
+     * @param conflictPolicy What to do if the target already has a directory with the same name
+     * @param updateImports Whether to rewrite the relative imports, pass `false` to only move the files
+     * @returns The directory the contents were moved to or null if nothing was moved
+     */
+    public moveDirectory(
+        dirPath: string,
+        targetDirPath: string,
+        newDirName?: string,
+        conflictPolicy = ConflictPolicy.Fail,
+        updateImports = true
+    ): VirtualDirectory | null {
+        return this.trackHistory(() => {
+            const dir = this.findDirectory(dirPath);
+            const target = this.findDirectory(targetDirPath);
+            if (!dir?.parentDir || !target) {
+                return null;
+            }
+
+            if (updateImports) {
+                // the files importing the moved ones might not be loaded yet
+                this.loadAll();
+                if (this.autoFlush) {
+                    this.flush();
+                }
+            }
+
+            const originalFiles = this.collectFiles(dir);
+            const originalDirs = this.collectDirectories(dir).map(originalDir => originalDir.path);
+            const originalPath = dir.path;
+            const replacedDir = target.subDirs.get(newDirName || dir.name);
+            const replacedFiles = replacedDir && replacedDir !== dir ? this.collectFiles(replacedDir) : [];
+            const replacedDirs = replacedDir && replacedDir !== dir ? this.collectDirectories(replacedDir).map(replaced => replaced.path) : [];
+            const originalLinks = this.collectSymlinks(dir);
+            const replacedLinks = replacedDir && replacedDir !== dir ? this.collectSymlinks(replacedDir) : [];
+
+            this._historyImage?.addTree(this.rootDir, originalPath);
+            this._historyImage?.addTree(this.rootDir, path.posix.join(target.path, newDirName || dir.name));
+            const movedDir = dir.parentDir.moveDirectory(dir, target, newDirName, conflictPolicy, updateImports);
+            if (movedDir && movedDir.path !== originalPath) {
+                // the directory gets a number appended to its name if it is moved with `AutoSuffix`
+                this._historyImage?.addNewTree(movedDir.path);
+                const movedDirs = this.recordTransfer(replacedFiles, replacedDirs, movedDir);
+                this.recordSymlinkTransfer(originalLinks, replacedLinks, originalPath, movedDir, true);
+                const replacedPaths = new Set(replacedFiles.map(file => file.path));
+                for (const file of originalFiles) {
+                    const movedPath = movedDir.path + file.path.substring(originalPath.length);
+                    // the files the moved ones take the place of are deleted from the storage
+                    if (replacedPaths.has(movedPath)) {
+                        this._changeJournal.recordDelete(movedPath);
+                    }
+                    this._changeJournal.recordMove(file.path, movedPath);
+                    this._events.emit({
+                        type: VFSEventType.FileMoved,
+                        path: movedPath,
+                        previousPath: file.path,
+                        content: this.findFile(movedPath)!.content
+                    });
+                }
+                originalDirs.filter(originalDirPath => !movedDirs.has(originalDirPath)).reverse().forEach(originalDirPath => {
+                    this._changeJournal.recordDirectoryRemoval(originalDirPath);
+                    this._events.emit({ type: VFSEventType.DirectoryRemoved, path: originalDirPath });
+                });
+                this.requestFlush();
+            }
+
+            return movedDir;
+        });
+    }
+
+    /**
+     * Copies a directory with all of its contents into another directory
+     * @param dirPath The path of the directory to copy
+     * @param targetDirPath The path of the directory to copy the directory into
+     * @param newDirName Optional name of the copy
+     * @param conflictPolicy What to do if the target already has a directory with the same name, a number is appended to the name by default
+     * @returns The directory the contents were copied to or null if nothing was copied
+     */
+    public copyDirectory(
+        dirPath: string,
+        targetDirPath: string,
+        newDirName?: string,
+        conflictPolicy = ConflictPolicy.AutoSuffix
+    ): VirtualDirectory | null {
+        return this.trackHistory(() => {
+            const dir = this.findDirectory(dirPath);
+            const target = this.findDirectory(targetDirPath);
+            if (!dir?.parentDir || !target) {
+                return null;
+            }
+
+            const originalFiles = this.collectFiles(dir);
+            const replacedDir = target.subDirs.get(newDirName || dir.name);
+            const replacedFiles = replacedDir && replacedDir !== dir ? this.collectFiles(replacedDir) : [];
+            const replacedDirs = replacedDir && replacedDir !== dir ? this.collectDirectories(replacedDir).map(replaced => replaced.path) : [];
+            const originalLinks = this.collectSymlinks(dir);
+            const replacedLinks = replacedDir && replacedDir !== dir ? this.collectSymlinks(replacedDir) : [];
+
+            this._historyImage?.addTree(this.rootDir, path.posix.join(target.path, newDirName || dir.name));
+            const dirCopy = dir.parentDir.copyDirectory(dir, target, newDirName, conflictPolicy);
+            if (dirCopy && dirCopy !== dir) {
+                // the copy gets a name that is not taken by default
+                this._historyImage?.addNewTree(dirCopy.path);
+                this.recordTransfer(replacedFiles, replacedDirs, dirCopy);
+                this.recordSymlinkTransfer(originalLinks, replacedLinks, dir.path, dirCopy, false);
+                const replacedContents = new Map(replacedFiles.map(file => [file.path, file.content]));
+                for (const file of originalFiles) {
+                    const copyPath = dirCopy.path + file.path.substring(dir.path.length);
+                    const content = this.findFile(copyPath)!.content;
+                    const previousContent = replacedContents.get(copyPath);
+                    if (previousContent !== undefined) {
+                        this._changeJournal.recordModify(copyPath);
+                        this._events.emit({ type: VFSEventType.FileModified, path: copyPath, content, previousContent });
+                    } else {
+                        this._changeJournal.recordCreate(copyPath);
+                        this._events.emit({ type: VFSEventType.FileCreated, path: copyPath, content });
+                    }
+                }
+                this.requestFlush();
+            }
+
+            return dirCopy;
+        });
+    }
+
+    /**
+     * Renames a directory and rewrites the relative imports of and to its files
+     * @param dirPath The path of the directory to rename
+     * @param newDirName The new name of the directory
+     * @param conflictPolicy What to do if the parent directory already has a directory with the new name
+     * @returns The renamed directory or null if it was not renamed
+     */
+    public renameDirectory(dirPath: string, newDirName: string, conflictPolicy = ConflictPolicy.Fail): VirtualDirectory | null {
+        const dir = this.findDirectory(dirPath);
+        if (!dir?.parentDir) {
+            return null;
+        }
+
+        return this.moveDirectory(dir.path, dir.parentDir.path, newDirName, conflictPolicy);
     }
 
     public findDirectory(dirPath: string): VirtualDirectory | null {
@@ -195,169 +712,1592 @@ export class TypeScriptVFS implements IFileSystem {
         return !!this.findDirectory(dirPath);
     }
 
-    public glob(pattern: string): string[] {
-        this.flush();
-        const entries: string[] = [];
-        const patternExpr = this.globToRegExp(pattern);
-        for (const file of this.fsMap.entries()) {
-            const filePath = pattern.startsWith(FORWARD_SLASH_TOKEN)
-                ? file[0]
-                : this.removeSlashes(file[0]);
-            if (patternExpr.test(filePath)) {
-                entries.push(filePath);
+    /**
+     * Creates files from a template, e.g. the files of a component. `{{name}}` placeholders in the names and
+     * the content of the files are replaced with the variables, files and directories whose name starts with
+     * `[name]` or `[!name]` are only created if the variable is truthy or falsy and `.template` extensions are removed.
+     * @param templateSource A directory of a VFS or the path of a physical directory with the template files
+     * @param targetDir The directory to create the files in, it is created if it does not exist
+     * @param variables The values of the placeholders and conditions
+     * @param conflictPolicy What happens to the files that already exist, `Fail` creates nothing if there are any
+     * @returns The created files or null if files already exist and the policy is `Fail`
+     */
+    public applyTemplate(
+        templateSource: VirtualDirectory | string,
+        targetDir: VirtualDirectory | string,
+        variables: Record<string, string | number | boolean>,
+        conflictPolicy = ConflictPolicy.Fail
+    ): VirtualFile[] | null {
+        const renderer = new TemplateRenderer(variables);
+        const targetPath = typeof targetDir === 'string' ? path.posix.join(FORWARD_SLASH_TOKEN, targetDir) : targetDir.path;
+        const files = new Map<string, string | Buffer>();
+        this.collectTemplateFiles(templateSource).forEach((content, templatePath) => {
+            const renderedPath = renderer.renderPath(templatePath);
+            if (renderedPath !== null) {
+                files.set(
+                    path.posix.join(targetPath, renderedPath),
+                    typeof content === 'string' ? renderer.renderContent(content) : content
+                );
             }
+        });
+
+        if (conflictPolicy === ConflictPolicy.Fail && [...files.keys()].some(filePath => this.findFile(filePath))) {
+            return null;
         }
 
-        return entries.sort((a, b) => a.length - b.length);
+        return this.trackHistory(() => [...files].map(([filePath, content]) => this.createFile(
+            conflictPolicy === ConflictPolicy.AutoSuffix ? this.getFreeFilePath(filePath) : filePath,
+            content
+        )));
     }
 
-    public getSourceFiles(): readonly ts.SourceFile[] {
-        if (this.autoFlush) {
-            this.flush();
-        }
-        return this.sourceManager?.languageService?.getProgram()?.getSourceFiles() || [];
+    /**
+     * Returns the paths of all files matching the patterns in stable path order
+     * @param patterns The glob patterns to match, the ones starting with `!` exclude files
+     * @param dot Whether wildcards match files and directories starting with a dot
+     * @returns Absolute paths if the first pattern is absolute and paths relative to the root otherwise
+     */
+    public glob(patterns: string | string[], dot = false): string[] {
+        patterns = Array.isArray(patterns) ? patterns : [patterns];
+        const includePattern = patterns.find(pattern => !pattern.startsWith('!')) ?? '';
+        return this.globFiles(patterns, dot).map(file => includePattern.startsWith(FORWARD_SLASH_TOKEN)
+            ? file.path
+            : this.removeSlashes(file.path));
     }
 
-    public clear(): void {
-        this._rootDir = this.loadPhysicalDirectoryToVirtual(
-            this.root,
-            new VirtualDirectory(this.root, null, this.sourceManager)
-        );
-        if (this.autoFlush) {
-            this.flush();
-        }
+    /**
+     * Returns all files matching the patterns in stable path order
+     * @param patterns The glob patterns to match, the ones starting with `!` exclude files
+     * @param dot Whether wildcards match files and directories starting with a dot
+     */
+    public globFiles(patterns: string | string[], dot = false): VirtualFile[] {
+        const matcher = new GlobMatcher(Array.isArray(patterns) ? patterns : [patterns], dot);
+        return this.collectFiles(this.rootDir)
+            .filter(file => matcher.match(file.path))
+            .sort((a, b) => this.comparePaths(a.path, b.path));
     }
 
-    public finalize(): void;
-    public finalize(outPath: string): void;
-    public finalize(outPath?: string): void {
-        this.flush();
-        if (outPath) {
-            const rootDirPath = path.posix.normalize(path.posix.join(outPath, this.rootDir.name));
-            fs.mkdirSync(rootDirPath, { recursive: true });
-            this.writeDirToFS(rootDirPath);
-            return;
+    /**
+     * Returns the changes that will be applied to the storage on `finalize()`
+     */
+    public getPendingChanges(): IFileChange[] {
+        return this._changeJournal.changes;
+    }
+
+    /**
+     * Compares the virtual file system to its storage without applying any changes
+     * @returns The diff of every file that `finalize()` would change in the storage
+     */
+    public previewChanges(): IFileDiff[] {
+        if (this.storage.isReadOnly) {
+            return [];
         }
 
-        if (this.root !== FORWARD_SLASH_TOKEN) {
-            try {
-                this.updateFilesOnDisc();
-            }
-            catch (err) {
-                throw new Error(`Could not apply virtual file system changes to ${this.root}.`);
+        const contentAfterFinalize = new Map<string, Buffer | null>();
+        for (const operation of this.planStorageOperations()) {
+            contentAfterFinalize.set(operation.path, this.getContentAfterOperation(operation));
+        }
+
+        // a moved file is only shown as renamed if nothing else takes its place on disk
+        const renames = new Map<string, string>();
+        for (const change of this._changeJournal.changes) {
+            if (change.state === FileState.Moved && contentAfterFinalize.get(change.previousPath!) === null) {
+                renames.set(change.path, change.previousPath!);
             }
         }
-    }
+        const renamedPaths = new Set(renames.values());
 
-    public flush(): void {
-        this._fsMap = this.convertToFsMap(this.rootDir);
-        this.sourceManager?.updateEnvironment(this.fsMap);
-    }
+        const diffBuilder = new DiffBuilder();
+        const diffs: IFileDiff[] = [];
+        for (const [filePath, newBuffer] of contentAfterFinalize) {
+            if (renamedPaths.has(filePath)) {
+                continue;
+            }
 
-    private updateFilesOnDisc(): void {
-        for (const kvp of this._watchedFilesMap) {
-            const file = this.rootDir.findFile(kvp[1]);
-            const dir = path
-                .posix
-                .join(
-                    this.root,
-                    file?.path.substring(0, file.path.lastIndexOf(FORWARD_SLASH_TOKEN))
-                    || kvp[1]
-                );
-            switch (kvp[0]) {
-                case FileState.New:
-                case FileState.Modified:
-                    if (!fs.existsSync(dir)) {
-                        fs.mkdirSync(dir, { recursive: true });
-                    }
-                    if (file) {
-                        fs.writeFileSync(path.posix.join(this.root, file.path), file.content);
-                    }
-                    break;
-                case FileState.Deleted:
-                    const filePath = path.posix.join(this.root, file?.path || kvp[1]);
-                    if (file || fs.existsSync(filePath)) {
-                        fs.rmSync(path.posix.normalize(filePath));
-                    }
-                    break;
+            const previousPath = renames.get(filePath);
+            const oldBuffer = this.readStorageEntry(previousPath || filePath);
+            if (oldBuffer && newBuffer?.equals(oldBuffer) && !previousPath) {
+                continue;
             }
+
+            const isBinary = [oldBuffer, newBuffer].some(buffer => buffer && this.isBinaryBuffer(buffer));
+            const oldContent = isBinary ? null : this.decodeBuffer(oldBuffer);
+            const newContent = isBinary ? null : this.decodeBuffer(newBuffer);
+            const diff: Omit<IFileDiff, 'unifiedDiff'> = {
+                path: filePath,
+                state: this._changeJournal.getChange(filePath)?.state || FileState.Deleted,
+                previousPath,
+                isNew: oldBuffer === null,
+                isDeleted: newBuffer === null,
+                isBinary,
+                oldContent,
+                newContent,
+                hunks: isBinary ? [] : diffBuilder.createHunks(oldContent, newContent)
+            };
+            diffs.push({ ...diff, unifiedDiff: diffBuilder.formatUnifiedDiff(diff) });
         }
-        this._watchedFilesMap.clear();
+
+        return diffs.sort((a, b) => a.path.localeCompare(b.path));
     }
 
-    private writeDirToFS(normalizedOutPath: string, dir?: VirtualDirectory): void {
-        dir = dir || this.rootDir;
-        dir.subDirs.forEach((subdir) => {
-            const subDirPath = path.posix.join(normalizedOutPath, subdir.name);
-            fs.mkdirSync(subDirPath, { recursive: true });
-            this.writeDirToFS(subDirPath, subdir);
-        });
+    /**
+     * Returns the files that were changed in the storage since they were loaded and that `finalize()` would change as well
+     */
+    public detectConflicts(): IFileConflict[] {
+        if (this.storage.isReadOnly) {
+            return [];
+        }
 
-        dir.files.forEach((file) => {
-            fs.writeFileSync(path.posix.join(normalizedOutPath, file.name), file.content);
-        });
+        const operations = this.planStorageOperations();
+        const conflicts = this.findConflicts(operations);
+        // a file moved away and recreated at the same path is removed and written, the write is what counts
+        const conflictingOperations = new Map(operations
+            .filter(operation => conflicts.has(operation.path))
+            .map(operation => [operation.path, operation]));
+        return [...conflictingOperations.values()].map(operation => ({
+            path: operation.path,
+            storageContent: this.decodeBuffer(this.storage.readFile(operation.path)),
+            content: operation.kind === 'write' ? this.decodeBuffer(operation.content!) : null
+        }));
     }
 
-    private convertToFsMap(dir: VirtualDirectory, fsMap: Map<string, string> = new Map()): Map<string, string> {
-        dir.subDirs.forEach((subdir) => {
-            this.convertToFsMap(subdir, fsMap);
-        });
+    /**
+     * Returns the changes that `finalize()` would apply to the storage as a single unified diff
+     */
+    public getUnifiedDiff(): string {
+        return this.previewChanges().map(diff => diff.unifiedDiff).join('');
+    }
 
-        dir.files.forEach((file) => {
-            if (this.supportedExtensions.includes(`.${file.extension}`)) {
-                fsMap.set(file.path, file.content);
-            }
-        });
+    public get canUndo(): boolean {
+        return this._undoStack.length > 0;
+    }
 
-        return fsMap;
+    public get canRedo(): boolean {
+        return this._redoStack.length > 0;
     }
 
-    private loadPhysicalDirectoryToVirtual(physicalDirPath: string, virtualDir: VirtualDirectory) {
-        const entries = fs.readdirSync(physicalDirPath, { withFileTypes: true });
-        for (const entry of entries) {
-            if (entry.name === NODE_MODULES) continue;
-            const entryPath = path.posix.join(physicalDirPath, entry.name);
-            if (entry.isDirectory()) {
-                const newVirtualDir = virtualDir.getOrCreateSubDir(entry.name, this.sourceManager);
-                this.loadPhysicalDirectoryToVirtual(entryPath, newVirtualDir);
-            } else if (entry.isFile()) {
-                const fileContent = fs.readFileSync(entryPath, 'utf8');
-                virtualDir.addFile(entry.name, fileContent);
-            }
+    /**
+     * Captures the directory tree and the pending changes of the virtual file system
+     * @param name Optional name to retrieve the snapshot with later on
+     */
+    public createSnapshot(name?: string): VFSSnapshot {
+        const snapshot = new VFSSnapshot(name, this.rootDir.clone(), this._changeJournal.clone());
+        if (name) {
+            this._snapshots.set(name, snapshot);
         }
 
-        return virtualDir;
+        return snapshot;
     }
 
-    private createDefaultMap(): Map<string, string> {
-        return createDefaultMapFromNodeModules({
-            target: ts.ScriptTarget.Latest,
-        });
+    public getSnapshot(name: string): VFSSnapshot | null {
+        return this._snapshots.get(name) || null;
     }
 
-    private getCompilerOptions(): CompilerOptions {
-        return Object.assign(
-            {},
-            this._defaultCompilerOptions,
-            this.compilerOptions
-        );
+    public deleteSnapshot(name: string): boolean {
+        return this._snapshots.delete(name);
     }
 
-    private globToRegExp(glob: string): RegExp {
-        // TODO: add support for more wildcards
-        // Escape special characters for RegExp, except for the glob-specific ones
-        let regExpString = glob.replace(/([.+^$(){}|[\]\\])/g, '\\$&');
-        regExpString = regExpString
-            .replace(/\*\*/g, '.*') // Match any number of directories
-            .replace(/\/\*/g, '\/[^/]*'); // Match any number of characters except '/'
-
-        if (glob.startsWith(FORWARD_SLASH_TOKEN)) {
-            regExpString = '^' + regExpString;
-        } else {
-            regExpString = '(^|/)' + regExpString;
+    /**
+     * Brings the virtual file system back to the state of a snapshot. Can be undone.
+     * Files and directories retrieved before restoring are no longer part of the virtual file system.
+     * @param snapshot The snapshot or the name of a snapshot to restore
+     */
+    public restore(snapshot: VFSSnapshot | string): boolean {
+        const target = typeof snapshot === 'string' ? this.getSnapshot(snapshot) : snapshot;
+        if (!target) {
+            return false;
+        }
+
+        return this.trackHistory(() => {
+            this._historyImage?.addTree(this.rootDir, FORWARD_SLASH_TOKEN);
+            this.applySnapshot(target);
+            return true;
+        });
+    }
+
+    /**
+     * Reverts the last mutating call, e.g. `createFile` or `moveFile`
+     */
+    public undo(): boolean {
+        const entry = this._undoStack.pop();
+        if (!entry) {
+            return false;
+        }
+
+        this._redoStack.push(this.applyHistoryEntry(entry));
+        return true;
+    }
+
+    /**
+     * Reapplies the last call reverted by `undo()`
+     */
+    public redo(): boolean {
+        const entry = this._redoStack.pop();
+        if (!entry) {
+            return false;
+        }
+
+        this._undoStack.push(this.applyHistoryEntry(entry));
+        return true;
+    }
+
+    public getSourceFiles(): readonly ts.SourceFile[] {
+        this.loadAll();
+        if (this.autoFlush) {
+            this.flush();
+        }
+        return this.sourceManager?.languageService?.getProgram()?.getSourceFiles() || [];
+    }
+
+    /**
+     * Returns the syntactic, semantic and compiler options diagnostics of a file or of the whole project
+     * @param filePath The path of the file to check, every file of the program is checked if not provided
+     * @param options Filters for the returned diagnostics
+     */
+    public getDiagnostics(filePath?: string, options: IDiagnosticsOptions = {}): ts.Diagnostic[] {
+        this.loadAll();
+        if (this.autoFlush) {
+            this.flush();
+        }
+
+        let fileNames = [...this.fsMap.keys()];
+        if (filePath) {
+            const file = this.findFile(filePath);
+            if (!file || !this.fsMap.has(file.path)) {
+                return [];
+            }
+            fileNames = [file.path];
+        }
+
+        const languageService = this.sourceManager.languageService;
+        const program = languageService?.getProgram();
+        const diagnostics: ts.Diagnostic[] = [
+            ...this._projectConfig?.errors || [],
+            ...languageService?.getCompilerOptionsDiagnostics?.() || []
+        ];
+        // the files excluded by the tsconfig file are not part of the program
+        for (const fileName of fileNames.filter(fileName => !program || program.getSourceFile(fileName))) {
+            diagnostics.push(
+                ...languageService?.getSyntacticDiagnostics?.(fileName) || [],
+                ...languageService?.getSemanticDiagnostics?.(fileName) || []
+            );
+        }
+
+        return diagnostics.filter(diagnostic =>
+            (!options.categories || options.categories.includes(diagnostic.category))
+            && (!options.codes || options.codes.includes(diagnostic.code)));
+    }
+
+    /**
+     * Formats diagnostics the way `tsc` reports them
+     * @param diagnostics The diagnostics to format
+     * @param pretty Whether to include colors and the source code of the errors, like `tsc --pretty`
+     */
+    public formatDiagnostics(diagnostics: readonly ts.Diagnostic[], pretty = true): string {
+        const host: ts.FormatDiagnosticsHost = {
+            getCurrentDirectory: () => FORWARD_SLASH_TOKEN,
+            getCanonicalFileName: fileName => fileName,
+            getNewLine: () => '\n'
+        };
+
+        return pretty
+            ? ts.formatDiagnosticsWithColorAndContext(diagnostics, host)
+            : ts.formatDiagnostics(diagnostics, host);
+    }
+
+    /**
+     * Compiles the files of the virtual file system without writing anything to disk.
+     * The output follows the configured compiler options, e.g. `outDir`, `declaration` and `sourceMap`.
+     * @param outputDir Optional directory to write the emitted files to. The files written to a directory of the virtual file
+     * system are created like `createFile` does, `finalize()` writes them and `undo()` removes them.
+     * @param emitOnlyDtsFiles Whether to only emit the declaration files
+     */
+    public emit(outputDir?: VirtualDirectory, emitOnlyDtsFiles = false): IEmitResult {
+        this.loadAll();
+        if (this.autoFlush) {
+            this.flush();
+        }
+
+        const files = new Map<string, string>();
+        const program = this.sourceManager.languageService?.getProgram();
+        if (!program) {
+            return { files, diagnostics: [], emitSkipped: true };
+        }
+
+        const result = program.emit(
+            undefined,
+            (fileName, text) => files.set(fileName, text),
+            undefined,
+            emitOnlyDtsFiles
+        );
+        if (outputDir && this.isInTree(outputDir)) {
+            this.trackHistory(() => [...files].map(([fileName, text]) => this.createFile(path.posix.join(outputDir.path, fileName), text)));
+        } else if (outputDir) {
+            files.forEach((text, fileName) => outputDir.addFile(fileName, text));
+        }
+
+        return { files, diagnostics: result.diagnostics, emitSkipped: result.emitSkipped };
+    }
+
+    /**
+     * Renames a symbol and every reference to it in the virtual file system
+     * @param filePath The path of the file that contains the symbol
+     * @param position The offset or the line and column of the symbol in the file
+     * @param newName The new name of the symbol
+     * @returns The files that were changed
+     */
+    public renameSymbol(
+        filePath: string,
+        position: number | ILineColumn,
+        newName: string,
+        options: IRenameOptions = {}
+    ): VirtualFile[] {
+        const file = this.findFile(filePath);
+        if (!file) {
+            return [];
+        }
+
+        this.loadAll();
+        if (this.autoFlush) {
+            this.flush();
+        }
+        const languageService = this.sourceManager.languageService;
+        const offset = this.resolvePosition(file, position);
+        const renameInfo = languageService?.getRenameInfo?.(file.path, offset, {});
+        if (!renameInfo?.canRename) {
+            throw new Error(`Cannot rename the symbol at position ${offset} in ${file.path}. ${renameInfo?.localizedErrorMessage || ''}`.trim());
+        }
+
+        const locations = languageService!.findRenameLocations!(
+            file.path,
+            offset,
+            !!options.findInStrings,
+            !!options.findInComments,
+            { providePrefixAndSuffixTextForRename: !!options.preserveImportAliases }
+        ) || [];
+        const changesByFile = new Map<string, ts.TextChange[]>();
+        for (const location of locations) {
+            const changes = changesByFile.get(location.fileName) || [];
+            changes.push({
+                span: location.textSpan,
+                newText: `${location.prefixText || ''}${newName}${location.suffixText || ''}`
+            });
+            changesByFile.set(location.fileName, changes);
+        }
+
+        return this.trackHistory(() => this.applyTextChanges(changesByFile));
+    }
+
+    /**
+     * Returns the type and documentation of the symbol at a position, the info editors show on hover
+     * @param position The offset or the line and column in the file
+     * @returns The info or null if there is no symbol at the position
+     */
+    public getQuickInfo(filePath: string, position: number | ILineColumn): IQuickInfo | null {
+        const file = this.findProgramFile(filePath);
+        if (!file) {
+            return null;
+        }
+
+        const quickInfo = this.sourceManager.languageService?.getQuickInfoAtPosition?.(file.path, this.resolvePosition(file, position));
+        return quickInfo ? {
+            kind: quickInfo.kind,
+            displayText: ts.displayPartsToString(quickInfo.displayParts),
+            documentation: ts.displayPartsToString(quickInfo.documentation),
+            range: this.toTextRange(file.path, quickInfo.textSpan)
+        } : null;
+    }
+
+    /**
+     * Returns the definitions of the symbol at a position, e.g. the declarations of the overloads of a function
+     * @param position The offset or the line and column in the file
+     */
+    public getDefinition(filePath: string, position: number | ILineColumn): IDefinition[] {
+        const file = this.findProgramFile(filePath);
+        if (!file) {
+            return [];
+        }
+
+        const program = this.sourceManager.languageService?.getProgram();
+        const definitions = this.sourceManager.languageService?.getDefinitionAtPosition?.(file.path, this.resolvePosition(file, position)) || [];
+        return definitions.map(definition => {
+            const sourceFile = program?.getSourceFile(definition.fileName);
+            let origin = DefinitionOrigin.Project;
+            if (sourceFile && program?.isSourceFileDefaultLibrary(sourceFile)) {
+                origin = DefinitionOrigin.Lib;
+            } else if (definition.fileName.split(FORWARD_SLASH_TOKEN).includes(NODE_MODULES)) {
+                origin = DefinitionOrigin.Package;
+            }
+
+            return {
+                path: definition.fileName,
+                name: definition.name,
+                kind: definition.kind,
+                containerName: definition.containerName,
+                range: this.toTextRange(definition.fileName, definition.textSpan),
+                origin
+            };
+        });
+    }
+
+    /**
+     * Returns the completions at a position, e.g. the members of an object after a dot
+     * @param position The offset or the line and column in the file
+     */
+    public getCompletions(filePath: string, position: number | ILineColumn): ICompletion[] {
+        const file = this.findProgramFile(filePath);
+        if (!file) {
+            return [];
+        }
+
+        const completions = this.sourceManager.languageService?.getCompletionsAtPosition?.(file.path, this.resolvePosition(file, position), {});
+        return (completions?.entries || []).map(entry => {
+            const completion: ICompletion = { name: entry.name, kind: entry.kind, sortText: entry.sortText };
+            if (entry.insertText !== undefined) {
+                completion.insertText = entry.insertText;
+            }
+            if (entry.replacementSpan) {
+                completion.replacementRange = this.toTextRange(file.path, entry.replacementSpan);
+            }
+            return completion;
+        });
+    }
+
+    /**
+     * Returns the signatures of the function called at a position and the argument the position is in
+     * @param position The offset or the line and column in the file
+     * @returns The signature help or null if the position is not in the arguments of a call
+     */
+    public getSignatureHelp(filePath: string, position: number | ILineColumn): ISignatureHelp | null {
+        const file = this.findProgramFile(filePath);
+        if (!file) {
+            return null;
+        }
+
+        const help = this.sourceManager.languageService?.getSignatureHelpItems?.(file.path, this.resolvePosition(file, position), {});
+        return help ? {
+            signatures: help.items.map(item => ({
+                label: [
+                    ...item.prefixDisplayParts,
+                    ...item.parameters.reduce((parts: ts.SymbolDisplayPart[], parameter, index) => [
+                        ...parts,
+                        ...index ? item.separatorDisplayParts : [],
+                        ...parameter.displayParts
+                    ], []),
+                    ...item.suffixDisplayParts
+                ].map(part => part.text).join(''),
+                documentation: ts.displayPartsToString(item.documentation),
+                parameters: item.parameters.map(parameter => ({
+                    name: parameter.name,
+                    label: ts.displayPartsToString(parameter.displayParts),
+                    documentation: ts.displayPartsToString(parameter.documentation),
+                    isOptional: parameter.isOptional
+                }))
+            })),
+            selectedSignature: help.selectedItemIndex,
+            argumentIndex: help.argumentIndex,
+            argumentCount: help.argumentCount,
+            range: this.toTextRange(file.path, help.applicableSpan)
+        } : null;
+    }
+
+    /**
+     * Formats a file with the language service, the settings of the `.editorconfig` files of the VFS are used by default
+     * @param settings The settings that take precedence over the ones of the `.editorconfig` files
+     * @returns Whether the content of the file changed
+     */
+    public formatFile(filePath: string, settings: ts.FormatCodeSettings = {}): boolean {
+        const file = this.findFile(filePath);
+        if (!file) {
+            return false;
+        }
+
+        return this.trackHistory(() => this.formatFiles([file], settings).length > 0);
+    }
+
+    /**
+     * Formats the TypeScript files matching the patterns, every TypeScript file if no patterns are provided
+     * @param patterns The glob patterns of the files to format, the ones starting with `!` exclude files
+     * @param settings The settings that take precedence over the ones of the `.editorconfig` files
+     * @returns The files that were changed
+     */
+    public formatAll(patterns: string | string[] = '**', settings: ts.FormatCodeSettings = {}): VirtualFile[] {
+        return this.trackHistory(() => this.formatFiles(this.globFiles(patterns), settings));
+    }
+
+    /**
+     * Removes the unused imports of the files matching the patterns, sorts and merges the rest
+     * @param patterns The glob patterns of the files, the ones starting with `!` exclude files
+     * @returns The files that were changed
+     */
+    public organizeImports(patterns: string | string[] = '**'): VirtualFile[] {
+        const files = this.globProgramFiles(patterns);
+        const languageService = this.sourceManager.languageService;
+        const fileChanges = files.reduce((changes: ts.FileTextChanges[], file) => [
+            ...changes,
+            ...languageService?.organizeImports?.({ type: 'file', fileName: file.path }, this.getFormatSettings(file), {}) || []
+        ], []);
+
+        return this.trackHistory(() => this.applyFileTextChanges(fileChanges));
+    }
+
+    /**
+     * Applies the code fixes of the language service to the files matching the patterns,
+     * e.g. adds missing imports or implements the members of interfaces.
+     * The VFS is flushed after each fix so that the next one sees its changes.
+     * @param patterns The glob patterns of the files, the ones starting with `!` exclude files
+     * @param options The fixes to apply to the whole files and the codes of the diagnostics to fix, every error is fixed if not provided
+     * @returns The files that were changed, fixes may change or create files that do not match the patterns
+     */
+    public applyCodeFixes(patterns: string | string[] = '**', options: ICodeFixOptions = {}): VirtualFile[] {
+        const files = this.globProgramFiles(patterns);
+        const languageService = this.sourceManager.languageService;
+        return this.trackHistory(() => {
+            const changedFiles = new Set<VirtualFile>();
+            const applyChanges = (fileChanges: readonly ts.FileTextChanges[]) => {
+                this.applyFileTextChanges(fileChanges).forEach(changedFile => changedFiles.add(changedFile));
+                this.flush();
+            };
+
+            for (const file of files) {
+                for (const fixId of options.fixIds || []) {
+                    const scope: ts.CombinedCodeFixScope = { type: 'file', fileName: file.path };
+                    applyChanges(languageService?.getCombinedCodeFix?.(scope, fixId, this.getFormatSettings(file), {}).changes || []);
+                }
+                if (options.fixIds && !options.errorCodes) {
+                    continue;
+                }
+
+                const appliedFixes = new Set<string>();
+                let fileChanges: readonly ts.FileTextChanges[] | null;
+                while ((fileChanges = this.findCodeFix(file, options.errorCodes, appliedFixes)) !== null) {
+                    applyChanges(fileChanges);
+                }
+            }
+
+            return [...changedFiles];
+        });
+    }
+
+    public clear(): void {
+        const previousRootDir = this._rootDir;
+        this._ignoreMatcher = undefined;
+        this._baselines.clear();
+        this._rootDir = this.createRootDir();
+        this.emitTreeChanges(previousRootDir, this._rootDir);
+        this._changeJournal.clear();
+        this.clearHistory();
+        this.requestFlush();
+    }
+
+    /**
+     * Applies the pending changes to the storage of the virtual file system or writes all of its files to another location
+     * @param target A physical directory to write the files to or another storage, e.g. an archive to save them as
+     */
+    public finalize(): void;
+    public finalize(outPath: string): void;
+    public finalize(storage: IStorageProvider): void;
+    public finalize(target?: string | IStorageProvider): void {
+        this.flush();
+        if (typeof target === 'string') {
+            const rootDirPath = path.posix.normalize(path.posix.join(target, this.rootDir.name));
+            const outStorage = new PhysicalStorageProvider(rootDirPath);
+            outStorage.createDirectory(FORWARD_SLASH_TOKEN);
+            this.writeDirToStorage(outStorage);
+            return;
+        }
+
+        if (target) {
+            this.writeDirToStorage(target);
+            target.save();
+            return;
+        }
+
+        if (!this.storage.isReadOnly) {
+            const operations = this.planStorageOperations();
+            const conflicts = this.findConflicts(operations);
+            if (conflicts.size && (this.writeOptions.conflictResolution || ConflictResolution.Fail) === ConflictResolution.Fail) {
+                throw new Error(`The files ${[...conflicts].join(', ')} were changed in ${this.root} since they were loaded.`);
+            }
+
+            try {
+                this.updateStorage(operations, conflicts);
+                // the pending changes of earlier states are already on disk
+                this.clearHistory();
+            }
+            catch (err) {
+                throw new Error(`Could not apply virtual file system changes to ${this.root}.`);
+            }
+        }
+    }
+
+    public flush(): void {
+        this._fsMap = this.convertToFsMap(this.rootDir);
+        this.updateProjectConfig();
+        this.sourceManager?.updateEnvironment(this.fsMap);
+        this._events.flush();
+    }
+
+    /**
+     * Runs a mutation of the virtual file system and makes it undoable if it succeeds.
+     * Mutations invoked while another one is running are undone together with it.
+     * Only the previous state of the paths the mutation touches is kept, the mutations add them before changing them.
+     */
+    private trackHistory<T>(mutation: () => T): T {
+        if (this._historyDepth > 0) {
+            return mutation();
+        }
+
+        const image = new TreeImage();
+        const changeJournal = this._changeJournal.clone();
+        let result: T;
+        this._historyImage = image;
+        this._historyDepth++;
+        try {
+            result = mutation();
+        } finally {
+            this._historyDepth--;
+            if (this._flushRequested) {
+                this._flushRequested = false;
+                this.flush();
+            }
+            this._historyImage = undefined;
+        }
+
+        if (Array.isArray(result) ? result.length : result) {
+            this._undoStack.push({ image: image.getChanges(this.rootDir), changeJournal });
+            if (this._undoStack.length > UNDO_HISTORY_LIMIT) {
+                this._undoStack.shift();
+            }
+            this._redoStack.length = 0;
+        }
+
+        return result;
+    }
+
+    /**
+     * Flushes the changes if auto flushing is enabled. Mutations that run as part of
+     * another mutation only flush once the outermost one completes.
+     */
+    private requestFlush(): void {
+        if (!this.autoFlush) {
+            return;
+        }
+
+        if (this._historyDepth > 0) {
+            this._flushRequested = true;
+        } else {
+            this.flush();
+        }
+    }
+
+    /**
+     * Applies text changes to the files of the virtual file system
+     * @param changesByFile The changes to apply, keyed by file path
+     * @returns The files that were changed
+     */
+    private applyTextChanges(changesByFile: Map<string, readonly ts.TextChange[]>): VirtualFile[] {
+        const changedFiles: VirtualFile[] = [];
+        for (const [filePath, changes] of changesByFile) {
+            const file = this.findFile(filePath);
+            if (file?.applyTextChanges(changes)) {
+                changedFiles.push(file);
+            }
+        }
+
+        return changedFiles;
+    }
+
+    private formatFiles(files: VirtualFile[], settings: ts.FormatCodeSettings): VirtualFile[] {
+        if (this.autoFlush) {
+            this.flush();
+        }
+
+        const editorConfig = new EditorConfigResolver(dirPath => this.readFile(path.posix.join(dirPath, EDITOR_CONFIG)));
+        const languageService = this.sourceManager.languageService;
+        const changesByFile = new Map<string, readonly ts.TextChange[]>();
+        // only the files of the program can be formatted by the language service
+        for (const file of files.filter(file => this.fsMap.has(file.path))) {
+            const fileSettings = this.getFormatSettings(file, editorConfig, settings);
+            changesByFile.set(file.path, languageService?.getFormattingEditsForDocument?.(file.path, fileSettings) || []);
+        }
+
+        return this.applyTextChanges(changesByFile);
+    }
+
+    /**
+     * Returns the formatting settings of a file, the settings of the `.editorconfig` files override the default ones
+     */
+    private getFormatSettings(
+        file: VirtualFile,
+        editorConfig = new EditorConfigResolver(dirPath => this.readFile(path.posix.join(dirPath, EDITOR_CONFIG))),
+        settings: ts.FormatCodeSettings = {}
+    ): ts.FormatCodeSettings {
+        return {
+            ...ts.getDefaultFormatCodeSettings(file.lineEnding),
+            ...editorConfig.getFormatSettings(file.path),
+            ...settings
+        };
+    }
+
+    /**
+     * Returns the files of the program matching the patterns, the whole project is loaded for the language service
+     */
+    private globProgramFiles(patterns: string | string[]): VirtualFile[] {
+        this.loadAll();
+        if (this.autoFlush) {
+            this.flush();
+        }
+
+        const program = this.sourceManager.languageService?.getProgram();
+        return this.globFiles(patterns).filter(file => program?.getSourceFile(file.path));
+    }
+
+    /**
+     * Finds the next code fix for the diagnostics of a file, the fixes with an id are applied to the whole file
+     * @param errorCodes The codes of the diagnostics to fix including suggestions, every error is fixed if not provided
+     * @param appliedFixes The fix ids and descriptions of the fixes already applied to the file, they are not applied twice
+     * @returns The changes of the fix or null if there is nothing left to fix
+     */
+    private findCodeFix(file: VirtualFile, errorCodes: number[] | undefined, appliedFixes: Set<string>): readonly ts.FileTextChanges[] | null {
+        const languageService = this.sourceManager.languageService;
+        const diagnostics = [
+            ...languageService?.getSyntacticDiagnostics?.(file.path) || [],
+            ...languageService?.getSemanticDiagnostics?.(file.path) || [],
+            ...errorCodes ? languageService?.getSuggestionDiagnostics?.(file.path) || [] : []
+        ].filter(diagnostic => diagnostic.start !== undefined && (!errorCodes || errorCodes.includes(diagnostic.code)));
+
+        const formatSettings = this.getFormatSettings(file);
+        for (const diagnostic of diagnostics) {
+            const start = diagnostic.start!;
+            const fixes = languageService?.getCodeFixesAtPosition?.(
+                file.path,
+                start,
+                start + (diagnostic.length || 0),
+                [diagnostic.code],
+                formatSettings,
+                {}
+            ) || [];
+            // only the first fix is applied, the others are alternatives to it
+            const fix = fixes[0];
+            const fixKey = fix?.fixId ? `${fix.fixId}` : `${diagnostic.code}:${fix?.description}`;
+            if (!fix || appliedFixes.has(fixKey)) {
+                continue;
+            }
+            appliedFixes.add(fixKey);
+
+            return fix.fixId
+                ? languageService!.getCombinedCodeFix!({ type: 'file', fileName: file.path }, fix.fixId, formatSettings, {}).changes
+                : fix.changes;
+        }
+
+        return null;
+    }
+
+    /**
+     * Applies the text changes of the language service, files created by the changes are added to the VFS
+     * @returns The files that were changed or created
+     */
+    private applyFileTextChanges(fileChanges: readonly ts.FileTextChanges[]): VirtualFile[] {
+        const createdFiles: VirtualFile[] = [];
+        const changesByFile = new Map<string, ts.TextChange[]>();
+        for (const { fileName, textChanges, isNewFile } of fileChanges) {
+            if (isNewFile) {
+                createdFiles.push(this.createFile(fileName, textChanges.map(change => change.newText).join('')));
+            } else {
+                changesByFile.set(fileName, [...changesByFile.get(fileName) || [], ...textChanges]);
+            }
+        }
+
+        return [...createdFiles, ...this.applyTextChanges(changesByFile)];
+    }
+
+    /**
+     * Finds a file of the program for a language service query, the whole project is loaded for it
+     */
+    private findProgramFile(filePath: string): VirtualFile | null {
+        const file = this.findFile(filePath);
+        if (!file) {
+            return null;
+        }
+
+        this.loadAll();
+        if (this.autoFlush) {
+            this.flush();
+        }
+        return this.sourceManager.languageService?.getProgram()?.getSourceFile(file.path) ? file : null;
+    }
+
+    /**
+     * Converts a span of a file of the program to lines and columns
+     */
+    private toTextRange(fileName: string, span: ts.TextSpan): ITextRange {
+        const sourceFile = this.sourceManager.languageService?.getProgram()?.getSourceFile(fileName);
+        const toLineColumn = (position: number): ILineColumn => {
+            const { line, character } = sourceFile
+                ? sourceFile.getLineAndCharacterOfPosition(position)
+                : { line: 0, character: position };
+            return { line: line + 1, column: character + 1 };
+        };
+
+        return { start: toLineColumn(span.start), end: toLineColumn(span.start + span.length) };
+    }
+
+    private resolvePosition(file: VirtualFile, position: number | ILineColumn): number {
+        if (typeof position === 'number') {
+            return position;
+        }
+
+        let lineStart = 0;
+        for (let line = 1; line < position.line; line++) {
+            lineStart = file.content.indexOf('\n', lineStart) + 1;
+            if (lineStart === 0) {
+                throw new Error(`Line ${position.line} is out of the range of ${file.path}.`);
+            }
+        }
+
+        return lineStart + position.column - 1;
+    }
+
+    private applySnapshot(snapshot: VFSSnapshot): void {
+        const previousRootDir = this._rootDir;
+        const rootDir = snapshot.rootDir.clone(null);
+        if (previousRootDir) {
+            // the directories loaded in either tree are loaded in both so that the change can be compared and undone
+            this.loadForComparison(previousRootDir, rootDir);
+            this.loadForComparison(rootDir, previousRootDir);
+        }
+        this._rootDir = rootDir;
+        this.emitTreeChanges(previousRootDir, this._rootDir);
+        this._changeJournal = snapshot.changeJournal.clone();
+        this.requestFlush();
+    }
+
+    /**
+     * Brings the paths of a history entry back to their state in it
+     * @returns The entry that reverts the change again
+     */
+    private applyHistoryEntry(entry: IHistoryEntry): IHistoryEntry {
+        const image = entry.image.apply(this.rootDir, (name, parentDir, state) => {
+            const dir = new VirtualDirectory(name, parentDir, this.sourceManager);
+            dir.symlinkTarget = state.symlinkTarget;
+            if (!state.isLoaded) {
+                dir.deferLoading(loadedDir => this.loadDirectory(loadedDir));
+            }
+            return dir;
+        });
+        this.emitImageChanges(image, entry.image);
+        const reverseEntry = { image, changeJournal: this._changeJournal };
+        this._changeJournal = entry.changeJournal;
+        this.requestFlush();
+
+        return reverseEntry;
+    }
+
+    private clearHistory(): void {
+        this._undoStack.length = 0;
+        this._redoStack.length = 0;
+    }
+
+    /**
+     * @param conflicts The paths of the files changed in the storage since they were loaded
+     */
+    private updateStorage(operations: IStorageOperation[], conflicts: Set<string>): void {
+        for (let operation of operations) {
+            if (conflicts.has(operation.path)) {
+                const resolvedOperation = this.resolveConflict(operation);
+                if (!resolvedOperation) {
+                    continue;
+                }
+                operation = resolvedOperation;
+            }
+
+            switch (operation.kind) {
+                case 'remove':
+                    this.storage.deleteFile(operation.path);
+                    this._baselines.delete(operation.path);
+                    break;
+                case 'write':
+                    this.storage.writeFile(operation.path, operation.content!);
+                    this.recordBaseline(operation.path, operation.content!);
+                    break;
+                case 'link':
+                    this.storage.createSymlink(operation.path, operation.linkTarget!);
+                    break;
+            }
+        }
+        // the directories are only removed from the storage once nothing is left in them, e.g. ignored files
+        for (const dirPath of this._changeJournal.removedDirectories) {
+            if (!this.findDirectory(dirPath)
+                && this.storage.directoryExists(dirPath)
+                && !this.storage.readDirectory(dirPath).length) {
+                this.storage.deleteDirectory(dirPath);
+            }
+        }
+        this.storage.save();
+        this._changeJournal.clear();
+    }
+
+    private findConflicts(operations: IStorageOperation[]): Set<string> {
+        // links do not have content that could have changed, neither the ones written nor the ones removed
+        return new Set(operations
+            .filter(operation => operation.kind !== 'link' && !this.isRemovedLink(operation) && this.isChangedInStorage(operation.path))
+            .map(operation => operation.path));
+    }
+
+    private isRemovedLink(operation: IStorageOperation): boolean {
+        return operation.kind === 'remove' && this.storage.readLink(operation.path) !== null;
+    }
+
+    private isChangedInStorage(filePath: string): boolean {
+        const baseline = this._baselines.get(filePath);
+        if (!baseline) {
+            // files that were not loaded from the storage conflict with the ones created there meanwhile
+            return !this.isSkipped(filePath) && this.storage.fileExists(filePath);
+        }
+
+        const modifiedTime = this.storage.getModifiedTime(filePath);
+        if (modifiedTime === null) {
+            return true;
+        }
+
+        return modifiedTime !== baseline.modifiedTime && this.hash(this.storage.readFile(filePath)!) !== baseline.hash;
+    }
+
+    /**
+     * Returns what `finalize()` does instead of an operation on a file that was changed in the storage
+     * @returns The operation to perform or null if the file in the storage is kept
+     */
+    private resolveConflict(operation: IStorageOperation): IStorageOperation | null {
+        switch (this.writeOptions.conflictResolution) {
+            case ConflictResolution.Overwrite:
+                return operation;
+            case ConflictResolution.Merge:
+                return this.mergeWithStorage(operation);
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Merges the changes of a file with the ones made in the storage since it was loaded and updates the file
+     * @returns The write of the merged content or null if the file in the storage is kept, e.g. a binary one
+     */
+    private mergeWithStorage(operation: IStorageOperation): IStorageOperation | null {
+        const storageContent = this.storage.readFile(operation.path);
+        if (operation.kind === 'remove' || !storageContent) {
+            // deletions can not be merged, the changed file is kept
+            return operation.kind === 'write' ? operation : null;
+        }
+        if (this.isBinaryBuffer(storageContent) || this.isBinaryBuffer(operation.content!)) {
+            return null;
+        }
+
+        const { encoding, hasBom } = this._codec.detect(operation.content!);
+        const mergeResult = new TextMerger().merge(
+            this.decodeBuffer(this._baselines.get(operation.path)?.content ?? null) ?? '',
+            this.decodeBuffer(operation.content!)!,
+            this.decodeBuffer(storageContent)!,
+            ['virtual', 'storage']
+        );
+        const file = this.rootDir.findFile(operation.path);
+        if (file && file.content !== mergeResult.content) {
+            const previousContent = file.content;
+            file.content = mergeResult.content;
+            this._events.emit({ type: VFSEventType.FileModified, path: file.path, content: file.content, previousContent });
+            this.requestFlush();
+        }
+
+        return { ...operation, content: this._codec.encode(mergeResult.content, encoding, hasBom) };
+    }
+
+    private recordBaseline(filePath: string, content: Buffer): void {
+        this._baselines.set(filePath, {
+            hash: this.hash(content),
+            modifiedTime: this.storage.getModifiedTime(filePath),
+            content: this.writeOptions.conflictResolution === ConflictResolution.Merge ? content : undefined
+        });
+    }
+
+    private hash(content: Buffer): string {
+        return crypto.createHash('sha1').update(content).digest('hex');
+    }
+
+    /**
+     * Translates the pending changes to the operations `finalize()` performs on the storage
+     */
+    private planStorageOperations(): IStorageOperation[] {
+        const changes = this._changeJournal.changes;
+        const operations: IStorageOperation[] = [];
+        // remove files first so that a file moved away and recreated at the same path is not lost
+        for (const change of changes) {
+            const removedPath = change.state === FileState.Deleted
+                ? change.path
+                : change.state === FileState.Moved ? change.previousPath : undefined;
+            if (removedPath && (this.storage.fileExists(removedPath) || this.storage.readLink(removedPath) !== null)) {
+                operations.push({ kind: 'remove', path: removedPath });
+            }
+        }
+
+        for (const change of changes) {
+            if (change.state === FileState.Deleted) {
+                continue;
+            }
+
+            const file = this.rootDir.findFile(change.path);
+            const link = file ? null : this.rootDir.findSymlink(change.path);
+            if (file) {
+                operations.push({ kind: 'write', path: file.path, content: file.toBuffer(this.writeOptions.lineEnding) });
+            } else if (link) {
+                operations.push({ kind: 'link', path: link.path, linkTarget: link.target });
+            }
+        }
+
+        return operations;
+    }
+
+    /**
+     * Records the directories a move or copy added to the destination and the files and directories it replaced there
+     * @param replacedFiles The files of the directory that was at the destination before
+     * @param replacedDirs The paths of the directories that were at the destination before
+     * @param destination The directory the contents were moved or copied to
+     * @returns The paths of the directories under the destination
+     */
+    private recordTransfer(replacedFiles: VirtualFile[], replacedDirs: string[], destination: VirtualDirectory): Set<string> {
+        const destinationDirs = new Set(this.collectDirectories(destination).map(dir => dir.path));
+        replacedFiles.filter(file => !this.findFile(file.path)).forEach(file => {
+            this._changeJournal.recordDelete(file.path);
+            this._events.emit({ type: VFSEventType.FileDeleted, path: file.path, content: file.content });
+        });
+        replacedDirs.filter(dirPath => !destinationDirs.has(dirPath)).reverse().forEach(dirPath => {
+            this._changeJournal.recordDirectoryRemoval(dirPath);
+            this._events.emit({ type: VFSEventType.DirectoryRemoved, path: dirPath });
+        });
+        const previousDirs = new Set(replacedDirs);
+        [...destinationDirs].filter(dirPath => !previousDirs.has(dirPath)).sort().forEach(dirPath => {
+            this._events.emit({ type: VFSEventType.DirectoryAdded, path: dirPath });
+        });
+
+        return destinationDirs;
+    }
+
+    /**
+     * Records the symbolic links a move or copy of a directory placed at the destination and the ones it replaced there
+     * @param links The paths of the links in the moved or copied directory
+     * @param replacedLinks The paths of the links of the directory that was at the destination before
+     * @param originalPath The path of the moved or copied directory
+     */
+    private recordSymlinkTransfer(
+        links: string[],
+        replacedLinks: string[],
+        originalPath: string,
+        destination: VirtualDirectory,
+        isMove: boolean
+    ): void {
+        replacedLinks.filter(linkPath => !this.findSymlink(linkPath)).forEach(linkPath => this._changeJournal.recordDelete(linkPath));
+        for (const linkPath of links) {
+            const newLinkPath = destination.path + linkPath.substring(originalPath.length);
+            if (isMove) {
+                if (replacedLinks.includes(newLinkPath)) {
+                    this._changeJournal.recordDelete(newLinkPath);
+                }
+                this._changeJournal.recordMove(linkPath, newLinkPath);
+            } else {
+                this._changeJournal.recordCreate(newLinkPath);
+            }
+        }
+    }
+
+    /**
+     * Returns the content of a file in the storage, like git the content of a symbolic link is its target
+     */
+    private readStorageEntry(filePath: string): Buffer | null {
+        const linkTarget = this.storage.readLink(filePath);
+        return linkTarget !== null ? Buffer.from(linkTarget) : this.storage.readFile(filePath);
+    }
+
+    private getContentAfterOperation(operation: IStorageOperation): Buffer | null {
+        switch (operation.kind) {
+            case 'write':
+                return operation.content!;
+            case 'link':
+                return Buffer.from(operation.linkTarget!);
+            default:
+                return null;
+        }
+    }
+
+    private isBinaryBuffer(buffer: Buffer): boolean {
+        return this._codec.detect(buffer).encoding === FileEncoding.Binary;
+    }
+
+    private decodeBuffer(buffer: Buffer | null): string | null {
+        if (!buffer) {
+            return null;
+        }
+
+        const { encoding, hasBom } = this._codec.detect(buffer);
+        return this._codec.decode(buffer, encoding, hasBom);
+    }
+
+    private writeDirToStorage(storage: IStorageProvider, dir?: VirtualDirectory): void {
+        dir = dir || this.rootDir;
+        // the files and directories loaded through links are written as links instead of copies
+        dir.subDirs.forEach((subdir) => {
+            if (subdir.symlinkTarget !== undefined) {
+                storage.createSymlink(subdir.path, subdir.symlinkTarget);
+                return;
+            }
+
+            storage.createDirectory(subdir.path);
+            this.writeDirToStorage(storage, subdir);
+        });
+
+        dir.files.forEach((file) => {
+            if (file.symlinkTarget !== undefined) {
+                storage.createSymlink(file.path, file.symlinkTarget);
+            } else {
+                storage.writeFile(file.path, file.toBuffer(this.writeOptions.lineEnding));
+            }
+        });
+        dir.symlinks.forEach((link) => {
+            storage.createSymlink(link.path, link.target);
+        });
+    }
+
+    /**
+     * @param loadedOnly Whether to skip the directories that are not loaded instead of loading them
+     */
+    private collectFiles(dir: VirtualDirectory, files: VirtualFile[] = [], loadedOnly = false): VirtualFile[] {
+        if (loadedOnly && !dir.isLoaded) {
+            return files;
+        }
+
+        dir.subDirs.forEach((subdir) => {
+            this.collectFiles(subdir, files, loadedOnly);
+        });
+        files.push(...dir.files.values());
+
+        return files;
+    }
+
+    /**
+     * @param loadedOnly Whether to skip the contents of the directories that are not loaded instead of loading them
+     */
+    private collectDirectories(dir: VirtualDirectory, dirs: VirtualDirectory[] = [], loadedOnly = false): VirtualDirectory[] {
+        dirs.push(dir);
+        if (loadedOnly && !dir.isLoaded) {
+            return dirs;
+        }
+
+        dir.subDirs.forEach((subdir) => {
+            this.collectDirectories(subdir, dirs, loadedOnly);
+        });
+
+        return dirs;
+    }
+
+    /**
+     * @returns The paths of the symbolic links in the directory tree
+     */
+    private collectSymlinks(dir: VirtualDirectory): string[] {
+        return this.collectDirectories(dir).reduce<string[]>(
+            (links, currentDir) => links.concat([...currentDir.symlinks.values()].map(link => link.path)),
+            []
+        );
+    }
+
+    /**
+     * Reads the files of a template, binary files are kept as bytes
+     * @returns The content of the files keyed by their path relative to the template directory
+     */
+    private collectTemplateFiles(templateSource: VirtualDirectory | string): Map<string, string | Buffer> {
+        const files = new Map<string, string | Buffer>();
+        if (typeof templateSource !== 'string') {
+            this.collectFiles(templateSource).forEach(file => {
+                files.set(path.posix.relative(templateSource.path, file.path), file.isBinary ? file.buffer : file.content);
+            });
+            return files;
+        }
+
+        const storage = new PhysicalStorageProvider(templateSource);
+        if (!storage.directoryExists(FORWARD_SLASH_TOKEN)) {
+            throw new Error(`Template directory ${templateSource} does not exist.`);
+        }
+        const readDirectory = (dirPath: string) => storage.readDirectory(dirPath).forEach(entry => {
+            const entryPath = path.posix.join(dirPath, entry.name);
+            if (entry.isDirectory) {
+                readDirectory(entryPath);
+            } else {
+                const buffer = storage.readFile(entryPath)!;
+                files.set(this.removeSlashes(entryPath), this.isBinaryBuffer(buffer) ? buffer : this.decodeBuffer(buffer)!);
+            }
+        });
+        readDirectory(FORWARD_SLASH_TOKEN);
+
+        return files;
+    }
+
+    /**
+     * Appends a number to the name of a file that already exists, e.g. `button(1).spec.ts`
+     */
+    private getFreeFilePath(filePath: string): string {
+        const dirPath = path.posix.dirname(filePath);
+        const fileName = path.posix.basename(filePath);
+        const dotIndex = fileName.indexOf(DOT_TOKEN, 1);
+        const baseName = dotIndex === -1 ? fileName : fileName.substring(0, dotIndex);
+        const extension = dotIndex === -1 ? '' : fileName.substring(dotIndex);
+
+        let freePath = filePath;
+        for (let counter = 1; this.findFile(freePath); counter++) {
+            freePath = path.posix.join(dirPath, `${baseName}(${counter})${extension}`);
+        }
+        return freePath;
+    }
+
+    /**
+     * Loads every directory that is not ignored, e.g. before running the language service over the whole project
+     */
+    private loadAll(): void {
+        this.collectDirectories(this.rootDir);
+    }
+
+    /**
+     * Loads the directories of a tree that are loaded in the other one so that the two can be compared
+     */
+    private loadForComparison(dir: VirtualDirectory, counterpart: VirtualDirectory | undefined): void {
+        if (!counterpart) {
+            this.collectDirectories(dir);
+            return;
+        }
+        if (!dir.isLoaded && !counterpart.isLoaded) {
+            return;
+        }
+
+        dir.subDirs.forEach((subdir, name) => this.loadForComparison(subdir, counterpart.subDirs.get(name)));
+    }
+
+    /**
+     * Returns the paths of the directories that have to be created for a directory path to exist, outermost first
+     */
+    private getMissingDirectories(dirPath: string): string[] {
+        const missingDirs: string[] = [];
+        let currentPath = dirPath;
+        while (currentPath !== FORWARD_SLASH_TOKEN && !this.findDirectory(currentPath)) {
+            missingDirs.unshift(currentPath);
+            currentPath = path.posix.dirname(currentPath);
+        }
+
+        return missingDirs;
+    }
+
+    /**
+     * Reports the differences between two directory trees, e.g. when a snapshot replaces the current one
+     */
+    private emitTreeChanges(previousRootDir: VirtualDirectory | undefined, rootDir: VirtualDirectory): void {
+        if (!previousRootDir || !this._events.hasSubscriptions) {
+            return;
+        }
+
+        // directories that are loaded in neither of the trees are the same in both
+        this.loadForComparison(previousRootDir, rootDir);
+        this.loadForComparison(rootDir, previousRootDir);
+        const toPaths = (dir: VirtualDirectory) => new Set(this.collectDirectories(dir, [], true).map(d => d.path));
+        const toContents = (dir: VirtualDirectory) => new Map(this.collectFiles(dir, [], true).map(f => [f.path, f.content]));
+        const previousDirs = toPaths(previousRootDir);
+        const dirs = toPaths(rootDir);
+        const previousFiles = toContents(previousRootDir);
+        const files = toContents(rootDir);
+
+        [...dirs].filter(dirPath => !previousDirs.has(dirPath)).sort().forEach(dirPath => {
+            this._events.emit({ type: VFSEventType.DirectoryAdded, path: dirPath });
+        });
+        files.forEach((content, filePath) => {
+            const previousContent = previousFiles.get(filePath);
+            if (previousContent === undefined) {
+                this._events.emit({ type: VFSEventType.FileCreated, path: filePath, content });
+            } else if (previousContent !== content) {
+                this._events.emit({ type: VFSEventType.FileModified, path: filePath, content, previousContent });
+            }
+        });
+        previousFiles.forEach((content, filePath) => {
+            if (!files.has(filePath)) {
+                this._events.emit({ type: VFSEventType.FileDeleted, path: filePath, content });
+            }
+        });
+        [...previousDirs].filter(dirPath => !dirs.has(dirPath)).sort().reverse().forEach(dirPath => {
+            this._events.emit({ type: VFSEventType.DirectoryRemoved, path: dirPath });
+        });
+    }
+
+    /**
+     * Reports the changes of the paths a history entry brought back to their state in it
+     * @param previous The state of the paths before the entry was applied
+     */
+    private emitImageChanges(previous: TreeImage, applied: TreeImage): void {
+        if (!this._events.hasSubscriptions) {
+            return;
+        }
+
+        const dirPaths = [...applied.directories.keys()].sort((a, b) => this.comparePaths(a, b));
+        dirPaths.filter(dirPath => !previous.directories.get(dirPath) && applied.directories.get(dirPath)).forEach(dirPath => {
+            this._events.emit({ type: VFSEventType.DirectoryAdded, path: dirPath });
+        });
+        applied.files.forEach((state, filePath) => {
+            const previousState = previous.files.get(filePath);
+            if (!state) {
+                return;
+            }
+            if (!previousState) {
+                this._events.emit({ type: VFSEventType.FileCreated, path: filePath, content: state.content });
+            } else if (previousState.content !== state.content) {
+                this._events.emit({
+                    type: VFSEventType.FileModified, path: filePath, content: state.content, previousContent: previousState.content
+                });
+            }
+        });
+        applied.files.forEach((state, filePath) => {
+            const previousState = previous.files.get(filePath);
+            if (!state && previousState) {
+                this._events.emit({ type: VFSEventType.FileDeleted, path: filePath, content: previousState.content });
+            }
+        });
+        dirPaths.reverse().filter(dirPath => previous.directories.get(dirPath) && !applied.directories.get(dirPath)).forEach(dirPath => {
+            this._events.emit({ type: VFSEventType.DirectoryRemoved, path: dirPath });
+        });
+    }
+
+    private convertToFsMap(dir: VirtualDirectory, fsMap: Map<string, string> = new Map()): Map<string, string> {
+        // the files that are not loaded yet become part of the program once they are
+        if (!dir.isLoaded) {
+            return fsMap;
+        }
+
+        dir.subDirs.forEach((subdir) => {
+            this.convertToFsMap(subdir, fsMap);
+        });
+
+        dir.files.forEach((file) => {
+            if (this.supportedExtensions.includes(`.${file.extension}`)) {
+                fsMap.set(file.path, file.content);
+            }
+        });
+
+        return fsMap;
+    }
+
+    private createRootDir(): VirtualDirectory {
+        const rootDir = new VirtualDirectory(this.root, null, this.sourceManager, this);
+        if (this.loadsStorage) {
+            rootDir.deferLoading(dir => this.loadDirectory(dir));
+        }
+        return rootDir;
+    }
+
+    /**
+     * Adds the files of a directory in the storage to its virtual counterpart, the subdirectories are loaded on first access
+     */
+    private loadDirectory(virtualDir: VirtualDirectory): void {
+        let entries: IStorageEntry[];
+        try {
+            entries = this.storage.readDirectory(virtualDir.path);
+        } catch (err) {
+            // directories that can not be read are treated as empty
+            return;
+        }
+
+        for (const entry of entries) {
+            const entryPath = path.posix.join(virtualDir.path, entry.name);
+            if (this.ignoreMatcher.isIgnored(entryPath, entry.isDirectory)) {
+                continue;
+            }
+
+            const symlinkTarget = entry.isSymbolicLink ? this.storage.readLink(entryPath) ?? '' : undefined;
+            if (symlinkTarget !== undefined && !this.canFollowSymlink(entryPath, entry.isDirectory, virtualDir)) {
+                virtualDir.symlinks.set(entry.name, new VirtualSymlink(entry.name, symlinkTarget, virtualDir, entry.isDirectory));
+            } else if (entry.isDirectory) {
+                const newVirtualDir = new VirtualDirectory(entry.name, virtualDir, this.sourceManager);
+                newVirtualDir.symlinkTarget = symlinkTarget;
+                newVirtualDir.deferLoading(dir => this.loadDirectory(dir));
+                virtualDir.subDirs.set(entry.name, newVirtualDir);
+            } else if (!this.exceedsMaxFileSize(entryPath)) {
+                let content: Buffer;
+                try {
+                    content = this.storage.readFile(entryPath) ?? Buffer.alloc(0);
+                } catch (err) {
+                    // files that can not be read are not loaded
+                    continue;
+                }
+                this.recordBaseline(entryPath, content);
+                const file = virtualDir.addFile(new VirtualFile(entry.name, content, virtualDir));
+                file.symlinkTarget = symlinkTarget;
+            }
+        }
+
+        // the contents loaded while a mutation runs were there before it
+        if (this._historyImage && this.isInTree(virtualDir)) {
+            this._historyImage.addContents(virtualDir);
+        }
+    }
+
+    /**
+     * Whether a directory is part of the current tree rather than of a snapshot
+     */
+    private isInTree(dir: VirtualDirectory): boolean {
+        let currentDir: VirtualDirectory | null = dir;
+        while (currentDir.parentDir) {
+            currentDir = currentDir.parentDir;
+        }
+
+        return currentDir === this._rootDir;
+    }
+
+    /**
+     * Whether a symbolic link is loaded as the file or directory it points to.
+     * Links that do not resolve and links to a directory that contains them are not followed.
+     */
+    private canFollowSymlink(linkPath: string, isDirectory: boolean, parentDir: VirtualDirectory): boolean {
+        if (!this.loadOptions.followSymlinks) {
+            return false;
+        }
+
+        const realPath = this.storage.realPath(linkPath);
+        if (realPath === null) {
+            return false;
+        }
+
+        // following a link to an ancestor would load the same directories forever
+        for (let dir: VirtualDirectory | null = isDirectory ? parentDir : null; dir; dir = dir.parentDir) {
+            if (this.storage.realPath(dir.path) === realPath) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Whether a file of the storage is not loaded because it is ignored or too large
+     */
+    private isSkipped(filePath: string): boolean {
+        return this.ignoreMatcher.isIgnored(filePath) || this.exceedsMaxFileSize(filePath);
+    }
+
+    private exceedsMaxFileSize(filePath: string): boolean {
+        const maxFileSize = this.loadOptions.maxFileSize;
+        if (maxFileSize === undefined) {
+            return false;
+        }
+
+        try {
+            return (this.storage.getFileSize(filePath) ?? 0) > maxFileSize;
+        } catch (err) {
+            // files whose size can not be read are skipped when they are loaded
+            return false;
+        }
+    }
+
+    private createDefaultMap(): Map<string, string> {
+        return createDefaultMapFromNodeModules({
+            target: ts.ScriptTarget.Latest,
+        });
+    }
+
+    /**
+     * Parses the tsconfig file again if it, the configs it extends or the files of the program changed since it was last parsed
+     */
+    private updateProjectConfig(): void {
+        const configPath = path.posix.join(FORWARD_SLASH_TOKEN, this.loadOptions.tsconfig || TSCONFIG_FILE);
+        // like the other files of the program the tsconfig file is read once its directory is loaded
+        if (this.loadOptions.tsconfig === false
+            || !this.isDirectoryLoaded(path.posix.dirname(configPath))
+            || this.getProjectConfigInputs() === this._projectConfigInputs) {
+            return;
+        }
+
+        const configFiles: string[] = [];
+        this._projectConfig = this._projectConfigParser.parse(configPath, configFiles);
+        this._configFiles = configFiles;
+        this._projectConfigInputs = this.getProjectConfigInputs();
+        this.sourceManager.updateProject(
+            this.getCompilerOptions(),
+            this._projectConfig?.fileNames,
+            this._projectConfig?.projectReferences
+        );
+    }
+
+    /**
+     * Resolves an import to a file of the VFS the way the program does
+     * @returns The path of the file or null if the module is a package or cannot be resolved
+     */
+    private resolveModule(moduleName: string, containingFile: string): string | null {
+        const host: ts.ModuleResolutionHost = {
+            fileExists: (filePath) => this.findFile(filePath) !== null,
+            readFile: (filePath) => this.readFile(filePath) ?? undefined,
+            directoryExists: (dirPath) => this.findDirectory(dirPath) !== null
+        };
+        const { resolvedModule } = ts.resolveModuleName(moduleName, containingFile, this.getCompilerOptions(), host);
+
+        return resolvedModule && !resolvedModule.isExternalLibraryImport ? resolvedModule.resolvedFileName : null;
+    }
+
+    /**
+     * Whether a directory is loaded without loading it, directories that do not exist count as loaded
+     */
+    private isDirectoryLoaded(dirPath: string): boolean {
+        let dir: VirtualDirectory | undefined = this.rootDir;
+        for (const segment of dirPath.split(FORWARD_SLASH_TOKEN).filter(segment => segment.length)) {
+            if (!dir.isLoaded) {
+                return false;
+            }
+            dir = dir.subDirs.get(segment);
+            if (!dir) {
+                return true;
+            }
+        }
+
+        return dir.isLoaded;
+    }
+
+    private getProjectConfigInputs(): string {
+        return JSON.stringify([this._configFiles.map(filePath => this.readConfigFile(filePath)), [...this.fsMap.keys()]]);
+    }
+
+    /**
+     * Reads a config file of the VFS, the configs extended from packages in `node_modules` are read from the storage
+     */
+    private readConfigFile(filePath: string): string | null {
+        const storagePath = path.posix.join(FORWARD_SLASH_TOKEN, filePath);
+        return this.readFile(storagePath)
+            ?? (this.isSkipped(storagePath) ? this.storage.readFile(storagePath)?.toString() ?? null : null);
+    }
+
+    /**
+     * The options of the tsconfig file replace the default ones, the options passed to the constructor take precedence over both
+     */
+    private getCompilerOptions(): CompilerOptions {
+        const options: CompilerOptions = Object.assign(
+            {},
+            this._projectConfig?.options ?? this._defaultCompilerOptions,
+            this.compilerOptions
+        );
+        // the program expects the file names of the libs rather than their tsconfig names
+        options.lib = options.lib?.map(lib => lib.endsWith('.d.ts') ? lib : `lib.${lib.toLowerCase()}.d.ts`);
+
+        return options;
+    }
+
+    private comparePaths(a: string, b: string): number {
+        // compared segment by segment so that the files of a directory stay together
+        const aSegments = a.split(FORWARD_SLASH_TOKEN);
+        const bSegments = b.split(FORWARD_SLASH_TOKEN);
+        for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+            if (aSegments[i] !== bSegments[i]) {
+                return aSegments[i] < bSegments[i] ? -1 : 1;
+            }
         }
 
-        return new RegExp(regExpString);
+        return aSegments.length - bSegments.length;
     }
 
     private removeSlashes(inputPath: string): string {
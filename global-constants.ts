@@ -3,3 +3,12 @@ export const FORWARD_SLASH_TOKEN = "/";
 export const SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.cts', '.d.cts', '.mts', '.d.mts'];
 export const NODE_MODULES = 'node_modules';
 export const NEW_LINE_PLACEHOLDER = '//I keep the new line';
+export const DEV_NULL = '/dev/null';
+export const DEFAULT_DIFF_CONTEXT_LINES = 3;
+export const MAX_DIFF_EDIT_DISTANCE = 1000;
+export const UNDO_HISTORY_LIMIT = 100;
+export const GIT_DIR = '.git';
+export const GIT_IGNORE = '.gitignore';
+export const MAX_SYMLINK_DEPTH = 40;
+export const TSCONFIG_FILE = 'tsconfig.json';
+export const EDITOR_CONFIG = '.editorconfig';
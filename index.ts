@@ -1,2 +1,5 @@
 export * from "./types";
 export * from "./TypeScriptVirtualFileSystem";
+export * from "./vfs-internals/ArchiveStorageProvider";
+export * from "./vfs-internals/MemoryStorageProvider";
+export * from "./vfs-internals/PhysicalStorageProvider";
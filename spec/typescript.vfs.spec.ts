@@ -1,7 +1,11 @@
 import * as fs from "fs";
 import { TypeScriptVFS } from "../TypeScriptVirtualFileSystem";
 import path from "path";
-import { ModuleKind, ScriptTarget } from "typescript";
+import ts, { ModuleKind, ScriptTarget } from "typescript";
+import { ArchiveFormat, ConflictPolicy, ConflictResolution, DefinitionOrigin, FileState, IStorageProvider, IVFSEvent, IVFSOptions, LineEnding, VFSEventType } from "../types";
+import { ArchiveStorageProvider } from "../vfs-internals/ArchiveStorageProvider";
+import { MemoryStorageProvider } from "../vfs-internals/MemoryStorageProvider";
+import { VirtualDirectory } from "../vfs-internals/VirtualDirectory";
 
 describe("TypeScript Virtual File System", () => {
   let vfs: TypeScriptVFS;
@@ -18,6 +22,10 @@ describe("TypeScript Virtual File System", () => {
     }
   }
 
+  function createVFS(storage: IStorageProvider, options: IVFSOptions = {}): TypeScriptVFS {
+    return new TypeScriptVFS("/", {}, undefined, undefined, true, { ...options, storage });
+  }
+
   describe("Initialization tests", () => {
     beforeEach(() => {
       cleanupTestingDir("testing");
@@ -97,8 +105,8 @@ describe("TypeScript Virtual File System", () => {
       const files = vfs.glob("src/**/*.ts");
       expect(files.length).toEqual(3);
       expect(files[0]).toEqual("src/app/test.ts");
-      expect(files[1]).toEqual("src/app/testing/test.ts");
-      expect(files[2]).toEqual("src/app/testing/nested-test.ts");
+      expect(files[1]).toEqual("src/app/testing/nested-test.ts");
+      expect(files[2]).toEqual("src/app/testing/test.ts");
 
       const files2 = vfs.glob("/src/app/*.ts");
       expect(files2.length).toEqual(1);
@@ -111,6 +119,90 @@ describe("TypeScript Virtual File System", () => {
     });
   });
 
+  describe("Glob tests", () => {
+    beforeEach(() => {
+      vfs = new TypeScriptVFS();
+      vfs.createFile("src/app/app.component.ts", "");
+      vfs.createFile("src/app/app.component.html", "");
+      vfs.createFile("src/app/app.component.scss", "");
+      vfs.createFile("src/app/app.component.spec.ts", "");
+      vfs.createFile("src/app/.hidden/secret.ts", "");
+      vfs.createFile("src/main.ts", "");
+      vfs.createFile("src/.env", "");
+      vfs.createFile("package.json", "{}");
+    });
+
+    it("should match files with any extension", () => {
+      expect(vfs.glob("**/*.{json,html,scss}")).toEqual([
+        "package.json",
+        "src/app/app.component.html",
+        "src/app/app.component.scss"
+      ]);
+    });
+
+    it("should match a single character with ?", () => {
+      vfs.createFile("src/a1.ts", "");
+      vfs.createFile("src/a12.ts", "");
+      expect(vfs.glob("src/a?.ts")).toEqual(["src/a1.ts"]);
+    });
+
+    it("should match character classes", () => {
+      vfs.createFile("src/a1.ts", "");
+      vfs.createFile("src/b2.ts", "");
+      vfs.createFile("src/c3.ts", "");
+      expect(vfs.glob("src/[ab][0-9].ts")).toEqual(["src/a1.ts", "src/b2.ts"]);
+      expect(vfs.glob("src/[!ab]?.ts")).toEqual(["src/c3.ts"]);
+    });
+
+    it("should expand nested braces", () => {
+      expect(vfs.glob("src/{main,app/app.component{.spec,}}.ts")).toEqual([
+        "src/app/app.component.spec.ts",
+        "src/app/app.component.ts",
+        "src/main.ts"
+      ]);
+    });
+
+    it("should only match files at the level of the pattern", () => {
+      expect(vfs.glob("src/*.ts")).toEqual(["src/main.ts"]);
+      expect(vfs.glob("*.json")).toEqual(["package.json"]);
+    });
+
+    it("should exclude files matching negated patterns", () => {
+      expect(vfs.glob(["src/**/*.ts", "!**/*.spec.ts"])).toEqual([
+        "src/app/app.component.ts",
+        "src/main.ts"
+      ]);
+      expect(vfs.glob(["**/*.ts", "**/*.json", "!src/app/**", "!src/main.ts"])).toEqual(["package.json"]);
+    });
+
+    it("should include every file if there are only negated patterns", () => {
+      expect(vfs.glob("!src/**")).toEqual(["package.json"]);
+    });
+
+    it("should only match dot files explicitly unless dot is set", () => {
+      expect(vfs.glob("src/**")).not.toContain("src/.env");
+      expect(vfs.glob("src/**")).not.toContain("src/app/.hidden/secret.ts");
+      expect(vfs.glob("src/.*")).toEqual(["src/.env"]);
+      expect(vfs.glob("src/*/.hidden/*.ts")).toEqual(["src/app/.hidden/secret.ts"]);
+      expect(vfs.glob("src/**", true)).toContain("src/.env");
+      expect(vfs.glob("src/**", true)).toContain("src/app/.hidden/secret.ts");
+    });
+
+    it("should return absolute paths for absolute patterns", () => {
+      expect(vfs.glob("/src/*.ts")).toEqual(["/src/main.ts"]);
+    });
+
+    it("should return the matching virtual files", () => {
+      const files = vfs.globFiles("src/app/*.ts");
+      expect(files.map(f => f.name)).toEqual(["app.component.spec.ts", "app.component.ts"]);
+      expect(files[0]).toBe(vfs.findFile("src/app/app.component.spec.ts")!);
+    });
+
+    it("should return an empty array if nothing matches", () => {
+      expect(vfs.glob("**/*.js")).toEqual([]);
+    });
+  });
+
   describe("File creation tests", () => {
     beforeEach(() => {
       vfs = new TypeScriptVFS();
@@ -289,6 +381,44 @@ describe("TypeScript Virtual File System", () => {
     });
   });
 
+  describe("Import-aware file moving tests", () => {
+    beforeEach(() => {
+      vfs = new TypeScriptVFS();
+      vfs.createFile("src/util.ts", "export const util = 1;\n");
+      vfs.createFile("src/feature.ts", 'import { util } from "./util";\n\nexport const feature = util;\n');
+      vfs.createFile("src/main.ts", 'import { feature } from "./feature";\n\nconsole.log(feature);\n');
+      vfs.addDirectory("src/features");
+    });
+
+    it("should rewrite the imports of files that import the moved file", () => {
+      vfs.moveFile("src/feature.ts", "src/features");
+      expect(vfs.readFile("src/main.ts")).toEqual('import { feature } from "./features/feature";\n\nconsole.log(feature);\n');
+    });
+
+    it("should rewrite the relative imports of the moved file", () => {
+      vfs.moveFile("src/feature.ts", "src/features", "renamed.ts");
+      expect(vfs.readFile("src/features/renamed.ts")).toEqual(
+        'import { util } from "../util";\n\nexport const feature = util;\n'
+      );
+      expect(vfs.readFile("src/main.ts")).toContain('from "./features/renamed"');
+    });
+
+    it("should track every file touched by the move", () => {
+      (vfs as any)._changeJournal.clear();
+      vfs.moveFile("src/feature.ts", "src/features");
+      expect(vfs.getPendingChanges()).toEqual([
+        { path: "/src/main.ts", state: FileState.Modified },
+        { path: "/src/features/feature.ts", state: FileState.Moved, previousPath: "/src/feature.ts" },
+      ]);
+    });
+
+    it("should only move the file if updating imports is disabled", () => {
+      vfs.moveFile("src/feature.ts", "src/features", undefined, false);
+      expect(vfs.readFile("src/main.ts")).toContain('from "./feature"');
+      expect(vfs.readFile("src/features/feature.ts")).toContain('from "./util"');
+    });
+  });
+
   describe("File copying tests", () => {
     beforeEach(() => {
       vfs = new TypeScriptVFS();
@@ -458,36 +588,2075 @@ describe("TypeScript Virtual File System", () => {
     });
   });
 
-  describe("Finalization tests", () => {
+  describe("Change tracking tests", () => {
     beforeEach(() => {
-      cleanupTestingDir("testing");
-      setupTestingDir("testing", "testing/src", "testing/src/test.ts");
-      vfs = new TypeScriptVFS("./testing");
+      vfs = new TypeScriptVFS();
     });
 
-    afterAll(() => {
-      cleanupTestingDir("testing");
+    it("should track every created file", () => {
+      vfs.createFile("src/first.ts", "export const first = 1;");
+      vfs.createFile("src/second.ts", "export const second = 2;");
+      expect(vfs.getPendingChanges()).toEqual([
+        { path: "/src/first.ts", state: FileState.New },
+        { path: "/src/second.ts", state: FileState.New },
+      ]);
     });
 
-    it("should add new files to the physical representation of the vfs", () => {
-      vfs.addDirectory("src/app");
-      const content = "console.log('Hello, world!!!');";
-      vfs.createFile("src/app/another-test.ts", content);
-      vfs.finalize();
+    it("should not track a file that was created and then deleted", () => {
+      vfs.createFile("test.ts", "console.log('Hello, world!');");
+      vfs.deleteFile("test.ts");
+      expect(vfs.getPendingChanges().length).toEqual(0);
+    });
 
-      expect(fs.existsSync("./testing/src/app")).toBeTruthy();
-      expect(fs.existsSync("./testing/src/app/another-test.ts")).toBeTruthy();
-      expect(fs.readFileSync("./testing/src/app/another-test.ts", "utf8")).toEqual(content);
-      expect(fs.existsSync("./testing/src/test.ts")).toBeTruthy();
+    it("should keep a created file as new when it is modified", () => {
+      vfs.createFile("test.ts", "console.log('Hello, world!');");
+      vfs.writeFile("test.ts", "console.log('Hello, world!!!');");
+      expect(vfs.getPendingChanges()).toEqual([{ path: "/test.ts", state: FileState.New }]);
     });
 
-    it("should update the contents of the files in the physical representation of the vfs", () => {
-      const content = "console.log('Hello, world!!!');";
-      vfs.writeFile("src/test.ts", content);
+    it("should track a created file under its new path when it is moved", () => {
+      vfs.createFile("test.ts", "console.log('Hello, world!');");
+      vfs.addDirectory("src");
+      vfs.moveFile("test.ts", "src");
+      expect(vfs.getPendingChanges()).toEqual([{ path: "/src/test.ts", state: FileState.New }]);
+    });
+
+    it("should track copied files", () => {
+      vfs.createFile("test.ts", "console.log('Hello, world!');");
+      vfs.copyFile("test.ts", "/");
+      expect(vfs.getPendingChanges().map((c) => c.path)).toEqual(["/test.ts", "/test(1).ts"]);
+    });
+
+    it("should track the deletion of files in a removed directory", () => {
+      const journal = (vfs as any)._changeJournal;
+      vfs.createFile("src/app/test.ts", "console.log('Hello, world!');");
+      journal.clear();
+      vfs.removeDirectory("src", true);
+      expect(vfs.getPendingChanges()).toEqual([{ path: "/src/app/test.ts", state: FileState.Deleted }]);
+    });
+
+    describe("with files that exist on disk", () => {
+      let journal: any;
+
+      beforeEach(() => {
+        journal = (vfs as any)._changeJournal;
+        vfs.createFile("test.ts", "console.log('Hello, world!');");
+        vfs.addDirectory("src");
+        journal.clear();
+      });
+
+      it("should track a moved file with its previous path", () => {
+        vfs.moveFile("test.ts", "src", "moved.ts");
+        expect(vfs.getPendingChanges()).toEqual([
+          { path: "/src/moved.ts", state: FileState.Moved, previousPath: "/test.ts" },
+        ]);
+      });
+
+      it("should track the original path as deleted when a moved file is deleted", () => {
+        vfs.moveFile("test.ts", "src");
+        vfs.deleteFile("src/test.ts");
+        expect(vfs.getPendingChanges()).toEqual([{ path: "/test.ts", state: FileState.Deleted }]);
+      });
+
+      it("should track a file as modified when it is moved back to its original path", () => {
+        vfs.moveFile("test.ts", "src");
+        vfs.moveFile("src/test.ts", "/");
+        expect(vfs.getPendingChanges()).toEqual([{ path: "/test.ts", state: FileState.Modified }]);
+      });
+
+      it("should track a file as modified when it is deleted and created again", () => {
+        vfs.deleteFile("test.ts");
+        vfs.createFile("test.ts", "console.log('Hello, world!!!');");
+        expect(vfs.getPendingChanges()).toEqual([{ path: "/test.ts", state: FileState.Modified }]);
+      });
+    });
+
+    describe("with a file moved onto an existing one", () => {
+      let storage: MemoryStorageProvider;
+
+      beforeEach(() => {
+        storage = new MemoryStorageProvider({ "a/x.ts": "export const a = 1;", "b/x.ts": "export const b = 1;" });
+        vfs = createVFS(storage);
+        vfs.addDirectory("c");
+        vfs.moveFile("a/x.ts", "b");
+      });
+
+      it("should delete the overwritten file when the moved file is deleted", () => {
+        vfs.deleteFile("b/x.ts");
+        expect(vfs.getPendingChanges()).toEqual(jasmine.arrayWithExactContents([
+          { path: "/a/x.ts", state: FileState.Deleted },
+          { path: "/b/x.ts", state: FileState.Deleted }
+        ]));
+
+        vfs.finalize();
+        expect(storage.fileExists("a/x.ts")).toBeFalse();
+        expect(storage.fileExists("b/x.ts")).toBeFalse();
+      });
+
+      it("should delete the overwritten file when the moved file is moved again", () => {
+        vfs.moveFile("b/x.ts", "c");
+        expect(vfs.getPendingChanges()).toEqual(jasmine.arrayWithExactContents([
+          { path: "/b/x.ts", state: FileState.Deleted },
+          { path: "/c/x.ts", state: FileState.Moved, previousPath: "/a/x.ts" }
+        ]));
+
+        vfs.finalize();
+        expect(storage.fileExists("a/x.ts")).toBeFalse();
+        expect(storage.fileExists("b/x.ts")).toBeFalse();
+        expect(storage.readFile("c/x.ts")?.toString()).toEqual("export const a = 1;");
+      });
+    });
+
+    describe("with a directory moved onto an existing one", () => {
+      let storage: MemoryStorageProvider;
+
+      beforeEach(() => {
+        storage = new MemoryStorageProvider({ "a/x.ts": "export const a = 1;", "b/a/x.ts": "export const b = 1;" });
+        vfs = createVFS(storage);
+        vfs.addDirectory("c");
+        vfs.moveDirectory("a", "b", undefined, ConflictPolicy.Overwrite, false);
+      });
+
+      it("should delete the overwritten file when the moved file is deleted", () => {
+        vfs.deleteFile("b/a/x.ts");
+        expect(vfs.getPendingChanges()).toEqual(jasmine.arrayWithExactContents([
+          { path: "/a/x.ts", state: FileState.Deleted },
+          { path: "/b/a/x.ts", state: FileState.Deleted }
+        ]));
+
+        vfs.finalize();
+        expect(storage.fileExists("a/x.ts")).toBeFalse();
+        expect(storage.fileExists("b/a/x.ts")).toBeFalse();
+      });
+
+      it("should delete the overwritten file when the moved file is moved again", () => {
+        vfs.moveFile("b/a/x.ts", "c");
+        expect(vfs.getPendingChanges()).toEqual(jasmine.arrayWithExactContents([
+          { path: "/b/a/x.ts", state: FileState.Deleted },
+          { path: "/c/x.ts", state: FileState.Moved, previousPath: "/a/x.ts" }
+        ]));
+
+        vfs.finalize();
+        expect(storage.fileExists("a/x.ts")).toBeFalse();
+        expect(storage.fileExists("b/a/x.ts")).toBeFalse();
+        expect(storage.readFile("c/x.ts")?.toString()).toEqual("export const a = 1;");
+      });
+    });
+  });
+
+  describe("Change event tests", () => {
+    let events: IVFSEvent[];
+
+    beforeEach(() => {
+      vfs = new TypeScriptVFS();
+      events = [];
+    });
+
+    it("should report created, modified and deleted files with their content", () => {
+      vfs.createFile("src/app.ts", "const a = 1;");
+      vfs.watch((event) => events.push(event));
+      vfs.createFile("src/other.ts", "const b = 1;");
+      vfs.writeFile("src/app.ts", "const a = 2;");
+      vfs.deleteFile("src/other.ts");
+
+      expect(events).toEqual([
+        { type: VFSEventType.FileCreated, path: "/src/other.ts", content: "const b = 1;" },
+        { type: VFSEventType.FileModified, path: "/src/app.ts", content: "const a = 2;", previousContent: "const a = 1;" },
+        { type: VFSEventType.FileDeleted, path: "/src/other.ts", content: "const b = 1;" }
+      ]);
+    });
+
+    it("should report moved files with the old and the new path", () => {
+      vfs.createFile("src/app.ts", "const a = 1;");
+      vfs.addDirectory("lib");
+      vfs.watch((event) => events.push(event));
+      vfs.moveFile("src/app.ts", "lib", "main.ts");
+
+      expect(events).toEqual([
+        { type: VFSEventType.FileMoved, path: "/lib/main.ts", previousPath: "/src/app.ts", content: "const a = 1;" }
+      ]);
+    });
+
+    it("should report added and removed directories", () => {
+      vfs.watch((event) => events.push(event));
+      vfs.createFile("src/app/app.ts", "");
+      vfs.addDirectory("src/lib");
+      vfs.removeDirectory("src", true);
+
+      expect(events.map(e => [e.type, e.path])).toEqual([
+        [VFSEventType.DirectoryAdded, "/src"],
+        [VFSEventType.DirectoryAdded, "/src/app"],
+        [VFSEventType.FileCreated, "/src/app/app.ts"],
+        [VFSEventType.DirectoryAdded, "/src/lib"],
+        [VFSEventType.FileDeleted, "/src/app/app.ts"],
+        [VFSEventType.DirectoryRemoved, "/src/lib"],
+        [VFSEventType.DirectoryRemoved, "/src/app"],
+        [VFSEventType.DirectoryRemoved, "/src"]
+      ]);
+    });
+
+    it("should report changes made through the file API", () => {
+      const file = vfs.createFile("app.ts", "import { a } from './a';\n");
+      vfs.watch((event) => events.push(event));
+      file.addImport({ moduleSpecifier: "./b", namedImports: ["b"] });
+
+      expect(events.length).toEqual(1);
+      expect(events[0].type).toEqual(VFSEventType.FileModified);
+      expect(events[0].previousContent).toEqual("import { a } from './a';\n");
+      expect(events[0].content).toEqual(file.content);
+    });
+
+    it("should only report changes matching the glob patterns", () => {
+      vfs.watch((event) => events.push(event), { patterns: ["src/**/*.ts", "!**/*.spec.ts"] });
+      vfs.createFile("src/app.ts", "");
+      vfs.createFile("src/app.spec.ts", "");
+      vfs.createFile("src/app.html", "");
+      vfs.createFile("app.ts", "");
+
+      expect(events.map(e => e.path)).toEqual(["/src/app.ts"]);
+    });
+
+    it("should report files moved into or out of the watched paths", () => {
+      vfs.createFile("src/app.ts", "");
+      vfs.addDirectory("lib");
+      vfs.watch((event) => events.push(event), { directory: "lib" });
+      vfs.moveFile("src/app.ts", "lib");
+      vfs.moveFile("lib/app.ts", "/");
+
+      expect(events.map(e => [e.previousPath, e.path])).toEqual([
+        ["/src/app.ts", "/lib/app.ts"],
+        ["/lib/app.ts", "/app.ts"]
+      ]);
+    });
+
+    it("should scope the subscriptions of a directory to its contents", () => {
+      const dir = vfs.addDirectory("src/app");
+      dir.watch((event) => events.push(event), { patterns: "*.ts" });
+      vfs.createFile("src/app/app.ts", "");
+      vfs.createFile("src/app/nested/nested.ts", "");
+      vfs.createFile("src/main.ts", "");
+
+      expect(events.map(e => e.path)).toEqual(["/src/app/app.ts"]);
+    });
+
+    it("should stop reporting changes after unsubscribing", () => {
+      const unsubscribe = vfs.watch((event) => events.push(event));
+      vfs.createFile("a.ts", "");
+      unsubscribe();
+      vfs.createFile("b.ts", "");
+
+      expect(events.map(e => e.path)).toEqual(["/a.ts"]);
+    });
+
+    it("should report the changes of undo and redo", () => {
+      vfs.createFile("a.ts", "const a = 1;");
+      vfs.writeFile("a.ts", "const a = 2;");
+      vfs.createFile("src/b.ts", "");
+      vfs.watch((event) => events.push(event));
+      vfs.undo();
+      vfs.undo();
+      vfs.redo();
+
+      expect(events).toEqual([
+        { type: VFSEventType.FileDeleted, path: "/src/b.ts", content: "" },
+        { type: VFSEventType.DirectoryRemoved, path: "/src" },
+        { type: VFSEventType.FileModified, path: "/a.ts", content: "const a = 1;", previousContent: "const a = 2;" },
+        { type: VFSEventType.FileModified, path: "/a.ts", content: "const a = 2;", previousContent: "const a = 1;" }
+      ]);
+    });
+
+    it("should deliver batched changes once per flush", () => {
+      const batches: IVFSEvent[][] = [];
+      vfs = new TypeScriptVFS("/", {}, undefined, undefined, false);
+      vfs.watchBatched((batch) => batches.push(batch), { patterns: "**/*.ts" });
+      vfs.createFile("a.ts", "");
+      vfs.createFile("b.ts", "");
+      vfs.createFile("c.html", "");
+      expect(batches.length).toEqual(0);
+
+      vfs.flush();
+      vfs.flush();
+      expect(batches.length).toEqual(1);
+      expect(batches[0].map(e => e.path)).toEqual(["/a.ts", "/b.ts"]);
+    });
+
+    it("should deliver the changes of a single operation in one batch", () => {
+      const batches: IVFSEvent[][] = [];
+      vfs.createFile("a.ts", "export const value = 1;\n");
+      vfs.createFile("b.ts", "import { value } from './a';\nconsole.log(value);\n");
+      vfs.watchBatched((batch) => batches.push(batch));
+      vfs.renameSymbol("a.ts", 13, "renamed");
+
+      expect(batches.length).toEqual(1);
+      expect(batches[0].map(e => e.path).sort()).toEqual(["/a.ts", "/b.ts"]);
+    });
+  });
+
+  describe("Source file update tests", () => {
+    const renameIdentifier = (from: string, to: string): ts.TransformerFactory<ts.SourceFile> => (context) => {
+      const visit = (node: ts.Node): ts.Node =>
+        ts.isIdentifier(node) && node.text === from
+          ? ts.factory.createIdentifier(to)
+          : ts.visitEachChild(node, visit, context);
+      return (sourceFile) => ts.visitNode(sourceFile, visit) as ts.SourceFile;
+    };
+
+    beforeEach(() => {
+      vfs = new TypeScriptVFS();
+      vfs.createFile("test.ts", "const a = 1;\n\nconsole.log(a);\n");
+      (vfs as any)._changeJournal.clear();
+    });
+
+    it("should apply the transformers to the content of the file", () => {
+      const file = vfs.findFile("test.ts")!;
+      expect(file.updateSourceFile(renameIdentifier("a", "b"))).toBeTrue();
+      expect(file.content).toEqual("const b = 1;\n\nconsole.log(b);\n");
+    });
+
+    it("should apply multiple transformers in order", () => {
+      const file = vfs.findFile("test.ts")!;
+      file.updateSourceFile(renameIdentifier("a", "b"), renameIdentifier("b", "c"));
+      expect(file.content).toEqual("const c = 1;\n\nconsole.log(c);\n");
+    });
+
+    it("should track the updated file as modified", () => {
+      vfs.findFile("test.ts")!.updateSourceFile(renameIdentifier("a", "b"));
+      expect(vfs.getPendingChanges()).toEqual([{ path: "/test.ts", state: FileState.Modified }]);
+    });
+
+    it("should not change the file if the transformers do not change the AST", () => {
+      const file = vfs.findFile("test.ts")!;
+      expect(file.updateSourceFile(renameIdentifier("x", "y"))).toBeFalse();
+      expect(file.content).toEqual("const a = 1;\n\nconsole.log(a);\n");
+      expect(vfs.getPendingChanges().length).toEqual(0);
+    });
+
+    it("should update a file by path and make the update undoable", () => {
+      expect(vfs.updateSourceFile("test.ts", renameIdentifier("a", "b"))).toBeTrue();
+      expect(vfs.readFile("test.ts")).toEqual("const b = 1;\n\nconsole.log(b);\n");
+      vfs.undo();
+      expect(vfs.readFile("test.ts")).toEqual("const a = 1;\n\nconsole.log(a);\n");
+    });
+
+    it("should return false if attempting to update a non-existing file", () => {
+      expect(vfs.updateSourceFile("non-existing-file.ts", renameIdentifier("a", "b"))).toBeFalse();
+    });
+  });
+
+  describe("Import management tests", () => {
+    function createFile(content: string) {
+      return vfs.createFile("test.ts", content);
+    }
+
+    beforeEach(() => {
+      vfs = new TypeScriptVFS();
+    });
+
+    it("should add a named import to an existing declaration of the same module", () => {
+      const file = createFile("import { a } from './a';\n\nconsole.log(a);\n");
+      expect(file.addImport({ moduleSpecifier: "./a", namedImports: ["b", { name: "c", alias: "d" }] })).toBeTrue();
+      expect(file.content).toEqual("import { a, b, c as d } from './a';\n\nconsole.log(a);\n");
+    });
+
+    it("should not add an import that already exists", () => {
+      const file = createFile("import def, { a } from './a';\n");
+      expect(file.addImport({ moduleSpecifier: "./a", defaultImport: "def", namedImports: ["a"] })).toBeFalse();
+      expect(file.content).toEqual("import def, { a } from './a';\n");
+    });
+
+    it("should keep the formatting of multi-line imports", () => {
+      const file = createFile("import {\n  a,\n  b,\n} from './a';\n");
+      file.addImport({ moduleSpecifier: "./a", namedImports: ["c"] });
+      expect(file.content).toEqual("import {\n  a,\n  b,\n  c,\n} from './a';\n");
+    });
+
+    it("should add a new declaration after the last import using the existing quote style", () => {
+      const file = createFile("import { a } from './a'\n\nconsole.log(a)\n");
+      file.addImport({ moduleSpecifier: "./b", defaultImport: "b", namedImports: ["c"] });
+      file.addImport({ moduleSpecifier: "./c", namespaceImport: "c" });
+      expect(file.content).toEqual(
+        "import { a } from './a'\nimport b, { c } from './b'\nimport * as c from './c'\n\nconsole.log(a)\n"
+      );
+    });
+
+    it("should add a declaration to a file without imports", () => {
+      const file = createFile("console.log('Hello, world!');\n");
+      file.addImport({ moduleSpecifier: "./a", namedImports: ["a"], typeOnly: true });
+      expect(file.content).toEqual('import type { a } from "./a";\n\nconsole.log(\'Hello, world!\');\n');
+    });
+
+    it("should add a default import to a declaration with named imports", () => {
+      const file = createFile('import { a } from "./a";\n');
+      file.addImport({ moduleSpecifier: "./a", defaultImport: "def" });
+      expect(file.content).toEqual('import def, { a } from "./a";\n');
+    });
+
+    it("should add a side-effect import only once", () => {
+      const file = createFile('import { a } from "./a";\n');
+      expect(file.addSideEffectImport("./polyfills")).toBeTrue();
+      expect(file.addImport({ moduleSpecifier: "./polyfills" })).toBeFalse();
+      expect(file.content).toEqual('import { a } from "./a";\nimport "./polyfills";\n');
+    });
+
+    it("should remove named, default and namespace imports", () => {
+      const file = createFile(
+        'import def, { a, b as c } from "./a";\nimport * as ns from "./b";\nimport x from "./c";\n\nconsole.log(a);\n'
+      );
+      file.removeImport("./a", { namedImports: ["b"] });
+      expect(file.content).toContain('import def, { a } from "./a";\n');
+      file.removeImport("./a", { defaultImport: true });
+      expect(file.content).toContain('import { a } from "./a";\n');
+      file.removeImport("./b", { namespaceImport: true });
+      file.removeImport("./c");
+      expect(file.content).toEqual('import { a } from "./a";\n\nconsole.log(a);\n');
+    });
+
+    it("should remove the whole declaration when its last named import is removed", () => {
+      const file = createFile('import { a } from "./a";\nimport def, { b } from "./b";\n');
+      file.removeImport("./a", { namedImports: ["a"] });
+      file.removeImport("./b", { namedImports: ["b"] });
+      expect(file.content).toEqual('import def from "./b";\n');
+    });
+
+    it("should rename a named import and keep its local name", () => {
+      const file = createFile('import { a, b as c } from "./a";\n\nconsole.log(a, c);\n');
+      file.renameImport("./a", "a", "x");
+      file.renameImport("./a", "b", "y");
+      expect(file.content).toEqual('import { x as a, y as c } from "./a";\n\nconsole.log(a, c);\n');
+    });
+
+    it("should rename the module specifier of imports", () => {
+      const file = createFile("import { a } from './a';\nimport './a';\n");
+      file.renameModuleSpecifier("./a", "./b");
+      expect(file.content).toEqual("import { a } from './b';\nimport './b';\n");
+    });
+
+    it("should merge the declarations of the same module", () => {
+      const file = createFile(
+        'import { a } from "./a";\nimport def from "./a";\nimport { b, a } from "./a";\nimport "./a";\nimport "./a";\n\nconsole.log(a);\n'
+      );
+      expect(file.mergeImports()).toBeTrue();
+      expect(file.content).toEqual('import def, { a, b } from "./a";\nimport "./a";\n\nconsole.log(a);\n');
+    });
+
+    it("should track the file as modified", () => {
+      const file = createFile('import { a } from "./a";\n');
+      (vfs as any)._changeJournal.clear();
+      file.addImport({ moduleSpecifier: "./a", namedImports: ["b"] });
+      expect(vfs.getPendingChanges()).toEqual([{ path: "/test.ts", state: FileState.Modified }]);
+    });
+  });
+
+  describe("Diagnostics tests", () => {
+    beforeEach(() => {
+      vfs = new TypeScriptVFS();
+      vfs.createFile("src/valid.ts", "export const a: number[] = [1];\nconsole.log(a.includes(1));\n");
+      vfs.createFile("src/invalid.ts", 'const b: number = "b";\nconst c = ;\n');
+    });
+
+    it("should return no diagnostics for a file that compiles", () => {
+      expect(vfs.getDiagnostics("src/valid.ts")).toEqual([]);
+    });
+
+    it("should return the syntactic and semantic diagnostics of a file", () => {
+      const diagnostics = vfs.getDiagnostics("src/invalid.ts");
+      expect(diagnostics.map((d) => d.code).sort()).toEqual([1109, 2322]);
+      expect(diagnostics.every((d) => d.file!.fileName === "/src/invalid.ts")).toBeTrue();
+    });
+
+    it("should return the diagnostics of every file if no file is provided", () => {
+      vfs.createFile("src/other.ts", "const d: string = 1;\n");
+      const fileNames = vfs.getDiagnostics().map((d) => d.file!.fileName);
+      expect(fileNames.sort()).toEqual(["/src/invalid.ts", "/src/invalid.ts", "/src/other.ts"]);
+    });
+
+    it("should filter the diagnostics by category and code", () => {
+      expect(vfs.getDiagnostics(undefined, { codes: [2322] }).length).toEqual(1);
+      expect(vfs.getDiagnostics(undefined, { categories: [ts.DiagnosticCategory.Warning] }).length).toEqual(0);
+    });
+
+    it("should include the compiler options diagnostics", () => {
+      vfs = new TypeScriptVFS("/", { declarationDir: "/out" });
+      vfs.createFile("test.ts", "export const a = 1;\n");
+      expect(vfs.getDiagnostics().some((d) => d.code === 5069)).toBeTrue();
+    });
+
+    it("should return an empty array for a non-existing file", () => {
+      expect(vfs.getDiagnostics("non-existing-file.ts")).toEqual([]);
+    });
+
+    it("should format the diagnostics the way tsc does", () => {
+      const diagnostics = vfs.getDiagnostics("src/invalid.ts", { codes: [2322] });
+      expect(vfs.formatDiagnostics(diagnostics, false)).toEqual(
+        "src/invalid.ts(1,7): error TS2322: Type 'string' is not assignable to type 'number'.\n"
+      );
+
+      const pretty = vfs.formatDiagnostics(diagnostics);
+      expect(pretty).toContain("src/invalid.ts");
+      expect(pretty).toContain('const b: number = "b";');
+    });
+  });
+
+  describe("Language service benchmark", () => {
+    const fileCount = 30;
+
+    function getProgram(): ts.Program {
+      return (vfs as any).sourceManager.languageService.getProgram();
+    }
+
+    beforeEach(() => {
+      vfs = new TypeScriptVFS();
+      for (let i = 0; i < fileCount; i++) {
+        vfs.createFile(`src/file${i}.ts`, `import { value${(i + 1) % fileCount} } from "./file${(i + 1) % fileCount}";\nexport const value${i}: number = ${i};\n`);
+      }
+      vfs.getDiagnostics();
+    });
+
+    it("should keep the source files of unchanged files between edits", () => {
+      const program = getProgram();
+      vfs.writeFile("src/file0.ts", "export const value0: number = 42;\n");
+      const nextProgram = getProgram();
+
+      expect(nextProgram).not.toBe(program);
+      expect(nextProgram.getSourceFile("/src/file0.ts")).not.toBe(program.getSourceFile("/src/file0.ts"));
+      expect(nextProgram.getSourceFile("/src/file1.ts")).toBe(program.getSourceFile("/src/file1.ts"));
+      expect(nextProgram.getSourceFile("/lib.es5.d.ts")).toBe(program.getSourceFile("/lib.es5.d.ts"));
+    });
+
+    it("should check a file created again at the path of a deleted file", () => {
+      vfs.deleteFile("src/file0.ts");
+      vfs.createFile("src/file0.ts", "export const value0: number = 'zero';\n");
+
+      expect(vfs.getDiagnostics("src/file0.ts").map((d) => d.code)).toEqual([2322]);
+      expect(getProgram().getSourceFile("/src/file0.ts")!.text).toEqual("export const value0: number = 'zero';\n");
+    });
+
+    it("should check a file created again at the path of a moved file", () => {
+      vfs.moveFile("src/file0.ts", "lib");
+      vfs.createFile("src/file0.ts", "export const value0: number = 'zero';\n");
+
+      expect(vfs.getDiagnostics("src/file0.ts").map((d) => d.code)).toEqual([2322]);
+      expect(getProgram().getSourceFile("/src/file0.ts")!.text).toEqual("export const value0: number = 'zero';\n");
+    });
+
+    it("should not create a new program if nothing changed", () => {
+      const program = getProgram();
+      vfs.flush();
+      expect(getProgram()).toBe(program);
+    });
+
+    it("should check edits faster than rebuilding the language service on every flush", () => {
+      const edits = 5;
+      const languageServiceHost = (vfs as any).sourceManager.languageServiceHost;
+
+      let start = performance.now();
+      for (let i = 0; i < edits; i++) {
+        vfs.writeFile("src/file0.ts", `export const value0: number = ${i};\n`);
+        vfs.getDiagnostics("src/file0.ts");
+      }
+      const incrementalTime = performance.now() - start;
+
+      start = performance.now();
+      for (let i = 0; i < edits; i++) {
+        vfs.writeFile("src/file0.ts", `export const value0: number = ${i + edits};\n`);
+        // a new language service with a new document registry on every request re-parses every file
+        const languageService = ts.createLanguageService(languageServiceHost, ts.createDocumentRegistry());
+        languageService.getSyntacticDiagnostics("/src/file0.ts");
+        languageService.getSemanticDiagnostics("/src/file0.ts");
+      }
+      const rebuildTime = performance.now() - start;
+
+      expect(incrementalTime).toBeLessThan(rebuildTime);
+    });
+  });
+
+  describe("Emit tests", () => {
+    it("should emit the JavaScript output of the files", () => {
+      vfs = new TypeScriptVFS();
+      vfs.createFile("src/a.ts", "export const a: number = 1;\n");
+      const result = vfs.emit();
+
+      expect(result.emitSkipped).toBeFalse();
+      expect(result.diagnostics.length).toEqual(0);
+      expect([...result.files.keys()]).toEqual(["/src/a.js"]);
+      expect(result.files.get("/src/a.js")).toContain("exports.a = 1;");
+    });
+
+    it("should honour the outDir, declaration and sourceMap compiler options", () => {
+      vfs = new TypeScriptVFS("/", { outDir: "/dist", rootDir: "/src", declaration: true, sourceMap: true });
+      vfs.createFile("src/a.ts", "export const a: number = 1;\n");
+      const result = vfs.emit();
+
+      expect([...result.files.keys()].sort()).toEqual(["/dist/a.d.ts", "/dist/a.js", "/dist/a.js.map"]);
+      expect(result.files.get("/dist/a.d.ts")).toContain("export declare const a: number;");
+      expect(vfs.fileExists("dist/a.js")).toBeFalsy();
+    });
+
+    it("should only emit declaration files if requested", () => {
+      vfs = new TypeScriptVFS("/", { declaration: true });
+      vfs.createFile("src/a.ts", "export const a: number = 1;\n");
+      expect([...vfs.emit(undefined, true).files.keys()]).toEqual(["/src/a.d.ts"]);
+    });
+
+    it("should write the output to a virtual directory", () => {
+      vfs = new TypeScriptVFS("/", { outDir: "/dist" });
+      vfs.createFile("src/a.ts", "export const a: number = 1;\n");
+      const outputDir = new VirtualDirectory("/", null);
+      vfs.emit(outputDir);
+
+      expect(outputDir.findFile("dist/a.js")!.content).toContain("exports.a = 1;");
+      expect(vfs.fileExists("dist/a.js")).toBeFalsy();
+    });
+
+    it("should track the output written to a directory of the vfs as new files", () => {
+      const storage = new MemoryStorageProvider({ "src/a.ts": "export const a: number = 1;\n" });
+      vfs = createVFS(storage, { load: { tsconfig: false } });
+      vfs.emit(vfs.addDirectory("out"));
+
+      expect(vfs.readFile("out/src/a.js")).toContain("exports.a = 1;");
+      expect(vfs.getPendingChanges()).toEqual([{ path: "/out/src/a.js", state: FileState.New }]);
+
+      vfs.undo();
+      expect(vfs.fileExists("out/src/a.js")).toBeFalsy();
+      expect(vfs.directoryExists("out")).toBeTruthy();
+
+      vfs.redo();
       vfs.finalize();
+      expect(storage.readFile("out/src/a.js")?.toString()).toContain("exports.a = 1;");
+    });
 
-      expect(fs.existsSync("./testing/src/test.ts")).toBeTruthy();
-      expect(fs.readFileSync("./testing/src/test.ts", "utf8")).toEqual(content);
+    it("should skip the emit and return the diagnostics when noEmitOnError is set", () => {
+      vfs = new TypeScriptVFS("/", { noEmitOnError: true });
+      vfs.createFile("src/a.ts", 'export const a: number = "a";\n');
+      const result = vfs.emit();
+
+      expect(result.emitSkipped).toBeTrue();
+      expect(result.files.size).toEqual(0);
+      expect(result.diagnostics.map((d) => d.code)).toEqual([2322]);
+    });
+  });
+
+  describe("Symbol rename tests", () => {
+    beforeEach(() => {
+      vfs = new TypeScriptVFS();
+      vfs.createFile("src/a.ts", "export const foo = 1;\n// foo is used in b.ts\n");
+      vfs.createFile("src/b.ts", 'import { foo } from "./a";\n\nexport const bar = foo + 1;\n');
+    });
+
+    it("should rename a symbol in every file that references it", () => {
+      const changedFiles = vfs.renameSymbol("src/a.ts", 13, "baz");
+      expect(changedFiles.map((f) => f.path)).toEqual(["/src/a.ts", "/src/b.ts"]);
+      expect(vfs.readFile("src/a.ts")).toEqual("export const baz = 1;\n// foo is used in b.ts\n");
+      expect(vfs.readFile("src/b.ts")).toEqual('import { baz } from "./a";\n\nexport const bar = baz + 1;\n');
+    });
+
+    it("should find the symbol by line and column", () => {
+      vfs.renameSymbol("src/b.ts", { line: 3, column: 20 }, "baz");
+      expect(vfs.readFile("src/a.ts")).toContain("export const baz = 1;");
+      expect(vfs.readFile("src/b.ts")).toContain("export const bar = baz + 1;");
+    });
+
+    it("should rename occurrences in comments if requested", () => {
+      vfs.renameSymbol("src/a.ts", 13, "baz", { findInComments: true });
+      expect(vfs.readFile("src/a.ts")).toEqual("export const baz = 1;\n// baz is used in b.ts\n");
+    });
+
+    it("should introduce an import alias instead of renaming the export if requested", () => {
+      vfs.renameSymbol("src/b.ts", { line: 3, column: 20 }, "baz", { preserveImportAliases: true });
+      expect(vfs.readFile("src/a.ts")).toEqual("export const foo = 1;\n// foo is used in b.ts\n");
+      expect(vfs.readFile("src/b.ts")).toEqual('import { foo as baz } from "./a";\n\nexport const bar = baz + 1;\n');
+    });
+
+    it("should track the changed files and undo the rename as a whole", () => {
+      (vfs as any)._changeJournal.clear();
+      vfs.renameSymbol("src/a.ts", 13, "baz");
+      expect(vfs.getPendingChanges().map((c) => c.state)).toEqual([FileState.Modified, FileState.Modified]);
+
+      vfs.undo();
+      expect(vfs.readFile("src/a.ts")).toContain("export const foo = 1;");
+      expect(vfs.readFile("src/b.ts")).toContain("export const bar = foo + 1;");
+    });
+
+    it("should throw if the symbol at the position can not be renamed", () => {
+      expect(() => vfs.renameSymbol("src/a.ts", 0, "baz")).toThrowError(/Cannot rename the symbol/);
+    });
+
+    it("should return an empty array if the file does not exist", () => {
+      expect(vfs.renameSymbol("non-existing-file.ts", 0, "baz")).toEqual([]);
+    });
+  });
+
+  describe("Snapshot and history tests", () => {
+    beforeEach(() => {
+      vfs = new TypeScriptVFS();
+      vfs.createFile("test.ts", "console.log('Hello, world!');");
+    });
+
+    it("should restore the files and pending changes of a snapshot", () => {
+      const snapshot = vfs.createSnapshot();
+      vfs.writeFile("test.ts", "console.log('Hello, world!!!');");
+      vfs.createFile("src/new.ts", "export const a = 1;");
+
+      expect(vfs.restore(snapshot)).toBeTrue();
+      expect(vfs.readFile("test.ts")).toEqual("console.log('Hello, world!');");
+      expect(vfs.fileExists("src/new.ts")).toBeFalsy();
+      expect(vfs.directoryExists("src")).toBeFalsy();
+      expect(vfs.getPendingChanges()).toEqual([{ path: "/test.ts", state: FileState.New }]);
+    });
+
+    it("should restore a snapshot by name more than once", () => {
+      vfs.createSnapshot("initial");
+      vfs.deleteFile("test.ts");
+      expect(vfs.restore("initial")).toBeTrue();
+      vfs.deleteFile("test.ts");
+      expect(vfs.restore("initial")).toBeTrue();
+      expect(vfs.fileExists("test.ts")).toBeTruthy();
+    });
+
+    it("should return false if attempting to restore a non-existing snapshot", () => {
+      expect(vfs.restore("non-existing-snapshot")).toBeFalse();
+    });
+
+    it("should not change a snapshot when the vfs is modified", () => {
+      const snapshot = vfs.createSnapshot();
+      vfs.writeFile("test.ts", "console.log('Hello, world!!!');");
+      expect(snapshot.rootDir.findFile("test.ts")!.content).toEqual("console.log('Hello, world!');");
+    });
+
+    it("should undo and redo mutating calls", () => {
+      vfs.addDirectory("src");
+      vfs.moveFile("test.ts", "src");
+      vfs.writeFile("src/test.ts", "console.log('Hello, world!!!');");
+
+      expect(vfs.undo()).toBeTrue();
+      expect(vfs.readFile("src/test.ts")).toEqual("console.log('Hello, world!');");
+      expect(vfs.undo()).toBeTrue();
+      expect(vfs.fileExists("test.ts")).toBeTruthy();
+      expect(vfs.fileExists("src/test.ts")).toBeFalsy();
+      expect(vfs.undo()).toBeTrue();
+      expect(vfs.directoryExists("src")).toBeFalsy();
+
+      expect(vfs.redo()).toBeTrue();
+      expect(vfs.redo()).toBeTrue();
+      expect(vfs.fileExists("src/test.ts")).toBeTruthy();
+      expect(vfs.getPendingChanges()).toEqual([{ path: "/src/test.ts", state: FileState.New }]);
+    });
+
+    it("should not record calls that do not change the vfs", () => {
+      vfs.undo();
+      expect(vfs.deleteFile("non-existing-file.ts")).toBeFalse();
+      expect(vfs.canUndo).toBeFalse();
+    });
+
+    it("should discard the redo history when a new change is made", () => {
+      vfs.writeFile("test.ts", "console.log('Hello, world!!!');");
+      vfs.undo();
+      expect(vfs.canRedo).toBeTrue();
+      vfs.createFile("new.ts", "export const a = 1;");
+      expect(vfs.canRedo).toBeFalse();
+      expect(vfs.redo()).toBeFalse();
+    });
+
+    it("should only keep the changed files in the undo history", () => {
+      vfs.createFile("other.ts", "export const a = 1;");
+      const otherFile = vfs.rootDir.findFile("other.ts");
+      const cloneSpy = spyOn(VirtualDirectory.prototype, "clone").and.callThrough();
+
+      vfs.writeFile("test.ts", "console.log('Hello, world!!!');");
+      vfs.undo();
+      vfs.redo();
+
+      expect(cloneSpy).not.toHaveBeenCalled();
+      expect(vfs.rootDir.findFile("other.ts")).toBe(otherFile);
+      expect(vfs.readFile("test.ts")).toEqual("console.log('Hello, world!!!');");
+    });
+
+    it("should not read the directories a call does not touch", () => {
+      // flushing reads every file for the language service
+      vfs = new TypeScriptVFS("/", {}, undefined, undefined, false);
+      vfs.createFile("src/a.ts", "export const a = 1;");
+      vfs.createFile("lib/b.ts", "export const b = 1;");
+      const libDir = vfs.findDirectory("lib")!;
+      const filesSpy = spyOnProperty(VirtualDirectory.prototype, "files").and.callThrough();
+
+      vfs.writeFile("src/a.ts", "export const a = 2;");
+      vfs.createFile("src/c.ts", "export const c = 1;");
+      vfs.undo();
+      vfs.undo();
+      vfs.redo();
+
+      expect(filesSpy.calls.all().some((call) => call.object === libDir)).toBeFalse();
+      expect(vfs.readFile("src/a.ts")).toEqual("export const a = 2;");
+      expect(vfs.fileExists("src/c.ts")).toBeFalsy();
+    });
+
+    it("should undo a restore", () => {
+      const snapshot = vfs.createSnapshot();
+      vfs.deleteFile("test.ts");
+      vfs.restore(snapshot);
+      vfs.undo();
+      expect(vfs.fileExists("test.ts")).toBeFalsy();
+    });
+  });
+
+  describe("Change preview tests", () => {
+    beforeEach(() => {
+      cleanupTestingDir("testing");
+      setupTestingDir("testing", "testing/src", "testing/src/test.ts");
+      vfs = new TypeScriptVFS("./testing");
+    });
+
+    afterAll(() => {
+      cleanupTestingDir("testing");
+    });
+
+    it("should produce a unified diff for a modified file", () => {
+      vfs.writeFile("src/test.ts", "console.log('Hello, world!');\nconsole.log('Bye!');\n");
+      expect(vfs.getUnifiedDiff()).toEqual(
+        "diff --git a/src/test.ts b/src/test.ts\n" +
+          "--- a/src/test.ts\n" +
+          "+++ b/src/test.ts\n" +
+          "@@ -1,1 +1,2 @@\n" +
+          "-console.log('Hello, world!');\n" +
+          "\\ No newline at end of file\n" +
+          "+console.log('Hello, world!');\n" +
+          "+console.log('Bye!');\n"
+      );
+    });
+
+    it("should only include the changed lines and their context in the hunks", () => {
+      const lines = Array.from({ length: 20 }, (_, i) => `const line${i} = ${i};`);
+      fs.writeFileSync("./testing/src/lines.ts", lines.join("\n") + "\n");
+      vfs = new TypeScriptVFS("./testing");
+      lines[10] = "const line10 = 'changed';";
+      vfs.writeFile("src/lines.ts", lines.join("\n") + "\n");
+
+      const [diff] = vfs.previewChanges();
+      expect(diff.hunks.length).toEqual(1);
+      expect(diff.hunks[0]).toEqual({
+        oldStart: 8,
+        oldLines: 7,
+        newStart: 8,
+        newLines: 7,
+        lines: [
+          " const line7 = 7;",
+          " const line8 = 8;",
+          " const line9 = 9;",
+          "-const line10 = 10;",
+          "+const line10 = 'changed';",
+          " const line11 = 11;",
+          " const line12 = 12;",
+          " const line13 = 13;",
+        ],
+      });
+    });
+
+    it("should diff a rewritten file as a single replacement", () => {
+      const lines = Array.from({ length: 2000 }, (_, i) => `const line${i} = ${i};`);
+      fs.writeFileSync("./testing/src/lines.ts", lines.join("\n") + "\n");
+      vfs = new TypeScriptVFS("./testing");
+      vfs.writeFile("src/lines.ts", lines.map((line) => line.replace("const", "let")).join("\n") + "\n");
+
+      const [diff] = vfs.previewChanges();
+      expect(diff.hunks.length).toEqual(1);
+      expect(diff.hunks[0].oldStart).toEqual(1);
+      expect(diff.hunks[0].oldLines).toEqual(2000);
+      expect(diff.hunks[0].newLines).toEqual(2000);
+      expect(diff.hunks[0].lines[0]).toEqual("-const line0 = 0;");
+      expect(diff.hunks[0].lines[2000]).toEqual("+let line0 = 0;");
+    });
+
+    it("should mark new and deleted files", () => {
+      vfs.createFile("src/new.ts", "export const a = 1;\n");
+      vfs.deleteFile("src/test.ts");
+      const diffs = vfs.previewChanges();
+
+      expect(diffs.length).toEqual(2);
+      expect(diffs[0].path).toEqual("/src/new.ts");
+      expect(diffs[0].isNew).toBeTrue();
+      expect(diffs[0].oldContent).toBeNull();
+      expect(diffs[0].unifiedDiff).toContain("new file\n--- /dev/null\n+++ b/src/new.ts\n@@ -0,0 +1,1 @@\n");
+      expect(diffs[1].path).toEqual("/src/test.ts");
+      expect(diffs[1].isDeleted).toBeTrue();
+      expect(diffs[1].state).toEqual(FileState.Deleted);
+      expect(diffs[1].unifiedDiff).toContain("deleted file\n--- a/src/test.ts\n+++ /dev/null\n@@ -1,1 +0,0 @@\n");
+    });
+
+    it("should show moved files as renamed", () => {
+      vfs.addDirectory("src/app");
+      vfs.moveFile("src/test.ts", "src/app");
+      const diffs = vfs.previewChanges();
+
+      expect(diffs.length).toEqual(1);
+      expect(diffs[0].previousPath).toEqual("/src/test.ts");
+      expect(diffs[0].hunks.length).toEqual(0);
+      expect(diffs[0].unifiedDiff).toEqual(
+        "diff --git a/src/test.ts b/src/app/test.ts\nrename from src/test.ts\nrename to src/app/test.ts\n"
+      );
+    });
+
+    it("should skip files whose content does not change", () => {
+      vfs.writeFile("src/test.ts", "console.log('Hello, world!');");
+      expect(vfs.previewChanges().length).toEqual(0);
+    });
+
+    it("should not apply any changes to disk", () => {
+      vfs.createFile("src/new.ts", "export const a = 1;");
+      vfs.deleteFile("src/test.ts");
+      vfs.previewChanges();
+
+      expect(fs.existsSync("./testing/src/new.ts")).toBeFalsy();
+      expect(fs.existsSync("./testing/src/test.ts")).toBeTruthy();
+      expect(vfs.getPendingChanges().length).toEqual(2);
+    });
+  });
+
+  describe("Storage provider tests", () => {
+    const archivesDir = "testing-archives";
+
+    beforeEach(() => {
+      cleanupTestingDir(archivesDir);
+      fs.mkdirSync(archivesDir);
+    });
+
+    afterAll(() => {
+      cleanupTestingDir(archivesDir);
+    });
+
+    it("should load the files of an in-memory storage", () => {
+      const storage = new MemoryStorageProvider({ "src/app.ts": "export const a = 1;", "package.json": "{}" });
+      vfs = createVFS(storage);
+
+      expect(vfs.readFile("src/app.ts")).toEqual("export const a = 1;");
+      expect(vfs.readFile("package.json")).toEqual("{}");
+    });
+
+    it("should apply the changes to an in-memory storage on finalize", () => {
+      const storage = new MemoryStorageProvider({ "src/app.ts": "export const a = 1;", "src/old.ts": "" });
+      vfs = createVFS(storage);
+      vfs.writeFile("src/app.ts", "export const a = 2;");
+      vfs.createFile("src/new.ts", "export const b = 1;");
+      vfs.deleteFile("src/old.ts");
+
+      expect(vfs.previewChanges().map(d => d.path)).toEqual(["/src/app.ts", "/src/new.ts", "/src/old.ts"]);
+      vfs.finalize();
+
+      expect(storage.readFile("src/app.ts")?.toString()).toEqual("export const a = 2;");
+      expect(storage.readFile("src/new.ts")?.toString()).toEqual("export const b = 1;");
+      expect(storage.fileExists("src/old.ts")).toBeFalse();
+      expect(vfs.getPendingChanges()).toEqual([]);
+    });
+
+    it("should keep empty directories of an in-memory storage", () => {
+      const storage = new MemoryStorageProvider();
+      storage.createDirectory("src/assets");
+      vfs = createVFS(storage);
+
+      expect(vfs.directoryExists("src/assets")).toBeTrue();
+    });
+
+    for (const extension of ["zip", "tar", "tgz"]) {
+      it(`should open, modify and re-save a ${extension} archive`, () => {
+        const archivePath = path.posix.join(archivesDir, `template.${extension}`);
+        const longPath = `src/${"nested/".repeat(15)}deep.ts`;
+        vfs = createVFS(new ArchiveStorageProvider(archivePath));
+        vfs.createFile("src/app.ts", "export const app = 'äpp';\n".repeat(50));
+        vfs.createFile("package.json", "{}");
+        vfs.createFile(longPath, "export const deep = true;");
+        vfs.finalize();
+        expect(fs.existsSync(archivePath)).toBeTrue();
+
+        vfs = createVFS(new ArchiveStorageProvider(archivePath));
+        expect(vfs.readFile("src/app.ts")).toEqual("export const app = 'äpp';\n".repeat(50));
+        expect(vfs.readFile("package.json")).toEqual("{}");
+        expect(vfs.readFile(longPath)).toEqual("export const deep = true;");
+
+        vfs.writeFile("package.json", "{ \"name\": \"template\" }");
+        vfs.deleteFile(longPath);
+        vfs.finalize();
+
+        const storage = new ArchiveStorageProvider(archivePath);
+        expect(storage.readFile("package.json")?.toString()).toEqual("{ \"name\": \"template\" }");
+        expect(storage.fileExists(longPath)).toBeFalse();
+        expect(storage.fileExists("src/app.ts")).toBeTrue();
+      });
+    }
+
+    it("should compress the files of a zip archive", () => {
+      const archivePath = path.posix.join(archivesDir, "compressed.zip");
+      const content = "export const value = 1;\n".repeat(1000);
+      vfs = createVFS(new ArchiveStorageProvider(archivePath));
+      vfs.createFile("src/app.ts", content);
+      vfs.finalize();
+
+      expect(fs.statSync(archivePath).size).toBeLessThan(content.length / 10);
+    });
+
+    it("should save the files of the virtual file system to another storage", () => {
+      const archivePath = path.posix.join(archivesDir, "copy.tar");
+      vfs = createVFS(new MemoryStorageProvider({ "src/app.ts": "const a = 1;" }));
+      vfs.createFile("src/other.ts", "const b = 1;");
+      vfs.addDirectory("src/assets");
+      vfs.finalize(new ArchiveStorageProvider(archivePath, ArchiveFormat.Tar));
+
+      vfs = createVFS(new ArchiveStorageProvider(archivePath));
+      expect(vfs.readFile("src/app.ts")).toEqual("const a = 1;");
+      expect(vfs.readFile("src/other.ts")).toEqual("const b = 1;");
+      expect(vfs.directoryExists("src/assets")).toBeTrue();
+    });
+
+    it("should throw for archives of an unknown format", () => {
+      expect(() => new ArchiveStorageProvider("template.rar")).toThrowError("Could not detect the archive format of template.rar.");
+    });
+  });
+
+  describe("Lazy loading tests", () => {
+    let storage: MemoryStorageProvider;
+
+    beforeEach(() => {
+      storage = new MemoryStorageProvider({
+        "src/app.ts": "import { util } from '../lib/util';\nexport const app = util;\n",
+        "lib/util.ts": "export const util = 1;\n",
+        "dist/main.js": "console.log(1);",
+        "debug.log": "",
+        "keep.log": "",
+        ".gitignore": "dist/\n*.log\n!keep.log\n",
+        "src/.gitignore": "generated.ts\n",
+        "src/generated.ts": "",
+        "node_modules/pkg/index.d.ts": "",
+        ".git/HEAD": ""
+      });
+    });
+
+    it("should only read the directories that are accessed", () => {
+      spyOn(storage, "readDirectory").and.callThrough();
+      spyOn(storage, "readFile").and.callThrough();
+      vfs = createVFS(storage);
+      vfs.rootDir;
+      expect(storage.readDirectory).not.toHaveBeenCalled();
+
+      expect(vfs.readFile("src/app.ts")).toContain("export const app");
+      expect((storage.readDirectory as jasmine.Spy).calls.allArgs()).toEqual([["/"], ["/src"]]);
+      expect(storage.readFile).not.toHaveBeenCalledWith("/lib/util.ts");
+      expect(vfs.findDirectory("lib")!.isLoaded).toBeFalse();
+    });
+
+    it("should load the whole project for the language service", () => {
+      vfs = createVFS(storage);
+      expect(vfs.getDiagnostics("src/app.ts")).toEqual([]);
+      expect(vfs.findDirectory("lib")!.isLoaded).toBeTrue();
+    });
+
+    it("should not load the files ignored by .gitignore files", () => {
+      vfs = createVFS(storage);
+      expect(vfs.glob("**", true)).toEqual([".gitignore", "keep.log", "lib/util.ts", "src/.gitignore", "src/app.ts"]);
+    });
+
+    it("should find ignored files in the storage", () => {
+      spyOn(storage, "readFile").and.callThrough();
+      vfs = createVFS(storage);
+      expect(vfs.findFile("dist/main.js")).toBeNull();
+      expect(vfs.fileExists("dist/main.js")).toBeTrue();
+      expect(vfs.fileExists("debug.log")).toBeTrue();
+      expect(vfs.fileExists("src/generated.ts")).toBeTrue();
+      expect(vfs.fileExists("node_modules/pkg/index.d.ts")).toBeTrue();
+      expect(vfs.fileExists("dist/other.js")).toBeFalse();
+      expect(storage.readFile).not.toHaveBeenCalledWith("/dist/main.js");
+    });
+
+    it("should load the ignored files if .gitignore is not used", () => {
+      vfs = createVFS(storage, { load: { useGitIgnore: false } });
+      expect(vfs.findFile("dist/main.js")).toBeTruthy();
+      expect(vfs.findFile("debug.log")).toBeTruthy();
+      expect(vfs.findFile("src/generated.ts")).toBeTruthy();
+      expect(vfs.findFile("node_modules/pkg/index.d.ts")).toBeNull();
+      expect(vfs.findFile(".git/HEAD")).toBeNull();
+    });
+
+    it("should not load the files matching custom ignore patterns", () => {
+      vfs = createVFS(storage, { load: { ignore: ["lib/", "!debug.log", "/*.ts"] } });
+      expect(vfs.findDirectory("lib")).toBeNull();
+      expect(vfs.findFile("debug.log")).toBeTruthy();
+      expect(vfs.findFile("src/app.ts")).toBeTruthy();
+      expect(vfs.fileExists("lib/util.ts")).toBeTrue();
+    });
+
+    it("should not read the files larger than the maximum file size", () => {
+      storage.writeFile("assets/video.mp4", "x".repeat(2048));
+      spyOn(storage, "readFile").and.callThrough();
+      vfs = createVFS(storage, { load: { maxFileSize: 1024 } });
+
+      expect(vfs.findFile("assets/video.mp4")).toBeNull();
+      expect(vfs.fileExists("assets/video.mp4")).toBeTrue();
+      expect(vfs.findFile("lib/util.ts")).toBeTruthy();
+      expect(storage.readFile).not.toHaveBeenCalledWith("/assets/video.mp4");
+    });
+
+    it("should skip the files that can not be read", () => {
+      const readFile = storage.readFile.bind(storage);
+      spyOn(storage, "readFile").and.callFake((filePath: string) => {
+        if (filePath === "/lib/util.ts") {
+          throw new Error("EACCES: permission denied, open '/lib/util.ts'");
+        }
+        return readFile(filePath);
+      });
+      spyOn(storage, "getFileSize").and.throwError("EACCES: permission denied, stat '/lib/util.ts'");
+      vfs = createVFS(storage, { load: { maxFileSize: 1024 } });
+
+      expect(vfs.findFile("lib/util.ts")).toBeNull();
+      expect(vfs.glob("**/*.ts")).toEqual(["src/app.ts"]);
+    });
+
+    it("should start empty at the root of the physical file system", () => {
+      vfs = new TypeScriptVFS();
+      expect(vfs.glob("**", true)).toEqual([]);
+      expect(vfs.storage.isReadOnly).toBeTrue();
+    });
+
+    it("should restore the directories loaded after a snapshot", () => {
+      vfs = createVFS(storage);
+      const snapshot = vfs.createSnapshot();
+      vfs.writeFile("lib/util.ts", "export const util = 2;\n");
+      vfs.restore(snapshot);
+
+      expect(vfs.readFile("lib/util.ts")).toEqual("export const util = 1;\n");
+    });
+  });
+
+  describe("Binary and encoding tests", () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0xff, 0x80]);
+    let storage: MemoryStorageProvider;
+
+    beforeEach(() => {
+      storage = new MemoryStorageProvider({
+        "assets/logo.png": png,
+        "src/bom.ts": Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from("export const bom = 1;\n")]),
+        "src/utf16.txt": Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from("h\u00e9llo\n", "utf16le")]),
+        "src/latin1.txt": Buffer.from("caf\u00e9\n", "latin1"),
+        "src/windows.ts": "import { a } from './a';\r\n\r\nexport const b = a;\r\n",
+        "src/a.ts": "export const a = 1;\n"
+      });
+    });
+
+    it("should keep the bytes of binary files", () => {
+      vfs = createVFS(storage);
+      const file = vfs.findFile("assets/logo.png")!;
+      expect(file.isBinary).toBeTrue();
+      expect(vfs.readFileBuffer("assets/logo.png")).toEqual(png);
+
+      vfs.copyFile("assets/logo.png", "assets", "copy.png");
+      vfs.finalize();
+      expect(storage.readFile("assets/copy.png")).toEqual(png);
+    });
+
+    it("should write the bytes passed to a file", () => {
+      vfs = createVFS(storage);
+      vfs.createFile("assets/icon.png", png);
+      vfs.writeFile("src/a.ts", Buffer.from("export const a = 2;\n"));
+
+      expect(vfs.findFile("assets/icon.png")!.isBinary).toBeTrue();
+      expect(vfs.readFile("src/a.ts")).toEqual("export const a = 2;\n");
+      vfs.finalize();
+      expect(storage.readFile("assets/icon.png")).toEqual(png);
+    });
+
+    it("should keep the encoding and byte order mark of text files", () => {
+      vfs = createVFS(storage);
+      expect(vfs.readFile("src/bom.ts")).toEqual("export const bom = 1;\n");
+      expect(vfs.readFile("src/utf16.txt")).toEqual("h\u00e9llo\n");
+      expect(vfs.readFile("src/latin1.txt")).toEqual("caf\u00e9\n");
+
+      vfs.writeFile("src/bom.ts", "export const bom = 2;\n");
+      vfs.writeFile("src/utf16.txt", "hall\u00e5\n");
+      vfs.writeFile("src/latin1.txt", "na\u00efve\n");
+      vfs.finalize();
+
+      expect(storage.readFile("src/bom.ts")).toEqual(Buffer.from("\ufeffexport const bom = 2;\n"));
+      expect(storage.readFile("src/utf16.txt")).toEqual(Buffer.from("\ufeffhall\u00e5\n", "utf16le"));
+      expect(storage.readFile("src/latin1.txt")).toEqual(Buffer.from("na\u00efve\n", "latin1"));
+    });
+
+    it("should keep the line endings of files edited through the API", () => {
+      vfs = createVFS(storage);
+      vfs.findFile("src/windows.ts")!.addImport({ moduleSpecifier: "./c", namedImports: ["c"] });
+
+      const content = vfs.readFile("src/windows.ts")!;
+      expect(content).toContain("import { c } from './c';\r\n");
+      expect(content).toContain("\r\n\r\nexport const b = a;\r\n");
+      expect(content.replace(/\r\n/g, "")).not.toContain("\n");
+    });
+
+    it("should normalize the line endings on write", () => {
+      vfs = createVFS(storage, { write: { lineEnding: LineEnding.LF } });
+      vfs.writeFile("src/windows.ts", "export const b = 2;\r\n");
+      vfs.finalize();
+
+      expect(storage.readFile("src/windows.ts")?.toString()).toEqual("export const b = 2;\n");
+      expect(vfs.readFile("src/windows.ts")).toEqual("export const b = 2;\r\n");
+    });
+
+    it("should report binary files in the change preview", () => {
+      vfs = createVFS(storage);
+      vfs.writeFile("assets/logo.png", Buffer.concat([png, Buffer.from([0x00])]));
+      const [diff] = vfs.previewChanges();
+
+      expect(diff.isBinary).toBeTrue();
+      expect(diff.hunks).toEqual([]);
+      expect(diff.unifiedDiff).toContain("Binary files a/assets/logo.png and b/assets/logo.png differ");
+    });
+  });
+
+  describe("Directory operation tests", () => {
+    let storage: MemoryStorageProvider;
+
+    beforeEach(() => {
+      storage = new MemoryStorageProvider({
+        "src/features/a/a.ts": "import { b } from '../b/b';\nexport const a = b;\n",
+        "src/features/a/nested/util.ts": "export const util = 1;\n",
+        "src/features/b/b.ts": "export const b = 1;\n",
+        "src/main.ts": "import { a } from './features/a/a';\nconsole.log(a);\n",
+        "src/shared/a/old.ts": "export const old = 1;\n",
+        "src/shared/a/a.ts": "export const replaced = 1;\n"
+      });
+      vfs = createVFS(storage);
+    });
+
+    it("should move a directory and rewrite the imports of and to its files", () => {
+      const movedDir = vfs.moveDirectory("src/features/a", "src", "alpha");
+
+      expect(movedDir!.path).toEqual("/src/alpha");
+      expect(vfs.findDirectory("src/features/a")).toBeNull();
+      expect(vfs.glob("src/alpha/**")).toEqual(["src/alpha/a.ts", "src/alpha/nested/util.ts"]);
+      expect(vfs.readFile("src/main.ts")).toContain("from './alpha/a'");
+      expect(vfs.readFile("src/alpha/a.ts")).toContain("from '../features/b/b'");
+      expect(vfs.getPendingChanges().find(change => change.path === "/src/alpha/nested/util.ts"))
+        .toEqual({ path: "/src/alpha/nested/util.ts", state: FileState.Moved, previousPath: "/src/features/a/nested/util.ts" });
+    });
+
+    it("should remove the old directories from the storage on finalize", () => {
+      vfs.renameDirectory("src/features/a", "alpha");
+      vfs.finalize();
+
+      expect(storage.readFile("src/features/alpha/nested/util.ts")?.toString()).toEqual("export const util = 1;\n");
+      expect(storage.fileExists("src/features/a/a.ts")).toBeFalse();
+      expect(storage.directoryExists("src/features/a/nested")).toBeFalse();
+      expect(storage.directoryExists("src/features/a")).toBeFalse();
+      expect(storage.directoryExists("src/features")).toBeTrue();
+    });
+
+    it("should copy a directory with an automatic suffix", () => {
+      const events: IVFSEvent[] = [];
+      vfs.watch(event => events.push(event));
+      const dirCopy = vfs.copyDirectory("src/features/a", "src/features");
+
+      expect(dirCopy!.path).toEqual("/src/features/a(1)");
+      expect(vfs.readFile("src/features/a(1)/nested/util.ts")).toEqual("export const util = 1;\n");
+      expect(vfs.findFile("src/features/a/a.ts")).toBeTruthy();
+      expect(events.map(event => event.type)).toEqual([
+        VFSEventType.DirectoryAdded,
+        VFSEventType.DirectoryAdded,
+        VFSEventType.FileCreated,
+        VFSEventType.FileCreated
+      ]);
+    });
+
+    it("should not move a directory onto an existing one by default", () => {
+      expect(vfs.moveDirectory("src/features/a", "src/shared")).toBeNull();
+      expect(vfs.moveDirectory("src/features", "src/features/a")).toBeNull();
+      expect(vfs.findFile("src/features/a/a.ts")).toBeTruthy();
+      expect(vfs.getPendingChanges()).toEqual([]);
+    });
+
+    it("should replace an existing directory", () => {
+      vfs.moveDirectory("src/features/a", "src/shared", undefined, ConflictPolicy.Overwrite, false);
+
+      expect(vfs.glob("src/shared/**")).toEqual(["src/shared/a/a.ts", "src/shared/a/nested/util.ts"]);
+      vfs.finalize();
+      expect(storage.fileExists("src/shared/a/old.ts")).toBeFalse();
+      expect(storage.readFile("src/shared/a/a.ts")?.toString()).toContain("export const a = b;");
+    });
+
+    it("should merge into an existing directory", () => {
+      vfs.copyDirectory("src/features/a", "src/shared", undefined, ConflictPolicy.Merge);
+
+      expect(vfs.glob("src/shared/**")).toEqual(["src/shared/a/a.ts", "src/shared/a/nested/util.ts", "src/shared/a/old.ts"]);
+      expect(vfs.readFile("src/shared/a/a.ts")).toContain("export const a = b;");
+      vfs.finalize();
+      expect(storage.fileExists("src/shared/a/old.ts")).toBeTrue();
+      expect(storage.fileExists("src/shared/a/nested/util.ts")).toBeTrue();
+    });
+
+    it("should undo a directory move", () => {
+      vfs.moveDirectory("src/features/a", "src", "alpha");
+      vfs.undo();
+
+      expect(vfs.findFile("src/features/a/nested/util.ts")).toBeTruthy();
+      expect(vfs.findDirectory("src/alpha")).toBeNull();
+      expect(vfs.readFile("src/main.ts")).toContain("from './features/a/a'");
+    });
+  });
+
+  describe("Storage conflict tests", () => {
+    let storage: MemoryStorageProvider;
+
+    beforeEach(() => {
+      storage = new MemoryStorageProvider({
+        "src/app.ts": "const a = 1;\nconst b = 2;\nconst c = 3;\n",
+        "src/other.ts": "export const other = 1;\n"
+      });
+    });
+
+    it("should report the files changed in the storage since they were loaded", () => {
+      vfs = createVFS(storage);
+      vfs.writeFile("src/app.ts", "const a = 10;\nconst b = 2;\nconst c = 3;\n");
+      vfs.deleteFile("src/other.ts");
+      vfs.createFile("src/new.ts", "export const x = 1;\n");
+      storage.writeFile("src/app.ts", "const a = 1;\nconst b = 2;\nconst c = 30;\n");
+      storage.writeFile("src/other.ts", "export const other = 2;\n");
+      storage.writeFile("src/new.ts", "export const y = 1;\n");
+
+      expect(vfs.detectConflicts()).toEqual([
+        { path: "/src/other.ts", storageContent: "export const other = 2;\n", content: null },
+        { path: "/src/app.ts", storageContent: "const a = 1;\nconst b = 2;\nconst c = 30;\n", content: "const a = 10;\nconst b = 2;\nconst c = 3;\n" },
+        { path: "/src/new.ts", storageContent: "export const y = 1;\n", content: "export const x = 1;\n" }
+      ]);
+    });
+
+    it("should not report files rewritten with the same content", () => {
+      vfs = createVFS(storage);
+      vfs.writeFile("src/app.ts", "const a = 10;\n");
+      storage.writeFile("src/app.ts", "const a = 1;\nconst b = 2;\nconst c = 3;\n");
+
+      expect(vfs.detectConflicts()).toEqual([]);
+      vfs.finalize();
+      expect(storage.readFile("src/app.ts")?.toString()).toEqual("const a = 10;\n");
+    });
+
+    it("should fail to finalize by default", () => {
+      vfs = createVFS(storage);
+      vfs.writeFile("src/app.ts", "const a = 10;\n");
+      vfs.writeFile("src/other.ts", "export const other = 10;\n");
+      storage.deleteFile("src/app.ts");
+
+      expect(() => vfs.finalize()).toThrowError(/\/src\/app\.ts were changed/);
+      expect(storage.fileExists("src/app.ts")).toBeFalse();
+      expect(storage.readFile("src/other.ts")?.toString()).toEqual("export const other = 1;\n");
+      expect(vfs.getPendingChanges().length).toEqual(2);
+    });
+
+    it("should overwrite the changes in the storage", () => {
+      vfs = createVFS(storage, { write: { conflictResolution: ConflictResolution.Overwrite } });
+      vfs.writeFile("src/app.ts", "const a = 10;\n");
+      storage.writeFile("src/app.ts", "const a = 100;\n");
+      vfs.finalize();
+
+      expect(storage.readFile("src/app.ts")?.toString()).toEqual("const a = 10;\n");
+    });
+
+    it("should skip the files changed in the storage", () => {
+      vfs = createVFS(storage, { write: { conflictResolution: ConflictResolution.Skip } });
+      vfs.writeFile("src/app.ts", "const a = 10;\n");
+      vfs.writeFile("src/other.ts", "export const other = 10;\n");
+      storage.writeFile("src/app.ts", "const a = 100;\n");
+      vfs.finalize();
+
+      expect(storage.readFile("src/app.ts")?.toString()).toEqual("const a = 100;\n");
+      expect(storage.readFile("src/other.ts")?.toString()).toEqual("export const other = 10;\n");
+    });
+
+    it("should merge the changes made in the storage", () => {
+      vfs = createVFS(storage, { write: { conflictResolution: ConflictResolution.Merge } });
+      vfs.writeFile("src/app.ts", "const a = 10;\nconst b = 2;\nconst c = 3;\n");
+      storage.writeFile("src/app.ts", "const a = 1;\nconst b = 2;\nconst c = 30;\n");
+      vfs.finalize();
+
+      expect(storage.readFile("src/app.ts")?.toString()).toEqual("const a = 10;\nconst b = 2;\nconst c = 30;\n");
+      expect(vfs.readFile("src/app.ts")).toEqual("const a = 10;\nconst b = 2;\nconst c = 30;\n");
+      expect(vfs.detectConflicts()).toEqual([]);
+    });
+
+    it("should write conflict markers for lines changed on both sides", () => {
+      vfs = createVFS(storage, { write: { conflictResolution: ConflictResolution.Merge } });
+      vfs.writeFile("src/app.ts", "const a = 1;\nconst b = 20;\nconst c = 3;\n");
+      storage.writeFile("src/app.ts", "const a = 1;\nconst b = 200;\nconst c = 3;\n");
+      vfs.finalize();
+
+      expect(storage.readFile("src/app.ts")?.toString()).toEqual(
+        "const a = 1;\n<<<<<<< virtual\nconst b = 20;\n=======\nconst b = 200;\n>>>>>>> storage\nconst c = 3;\n"
+      );
+    });
+  });
+
+  describe("Symbolic link tests", () => {
+    const linksDir = "testing-links";
+    let storage: MemoryStorageProvider;
+
+    beforeEach(() => {
+      storage = new MemoryStorageProvider({
+        "shared/tsconfig.base.json": "{}",
+        "libs/ui/button.ts": "export const button = 1;\n"
+      });
+      storage.createSymlink("app/tsconfig.json", "../shared/tsconfig.base.json");
+      storage.createSymlink("packages/ui", "../libs/ui");
+      storage.createSymlink("libs/ui/self", ".");
+      storage.createSymlink("app/missing.ts", "./does-not-exist.ts");
+    });
+
+    afterAll(() => {
+      cleanupTestingDir(linksDir);
+    });
+
+    it("should load symbolic links with their targets", () => {
+      vfs = createVFS(storage);
+
+      const link = vfs.findSymlink("packages/ui")!;
+      expect(link.target).toEqual("../libs/ui");
+      expect(link.targetPath).toEqual("/libs/ui");
+      expect(link.isDirectory).toBeTrue();
+      expect(vfs.findSymlink("app/tsconfig.json")!.isDirectory).toBeFalse();
+      expect(vfs.findFile("packages/ui/button.ts")).toBeNull();
+      expect(vfs.findFile("app/tsconfig.json")).toBeNull();
+    });
+
+    it("should follow symbolic links if requested", () => {
+      vfs = createVFS(storage, { load: { followSymlinks: true } });
+
+      expect(vfs.readFile("app/tsconfig.json")).toEqual("{}");
+      expect(vfs.readFile("packages/ui/button.ts")).toEqual("export const button = 1;\n");
+      expect(vfs.findDirectory("packages/ui")!.symlinkTarget).toEqual("../libs/ui");
+      expect(vfs.findSymlink("app/missing.ts")!.target).toEqual("./does-not-exist.ts");
+    });
+
+    it("should not follow symbolic links that form a loop", () => {
+      vfs = createVFS(storage, { load: { followSymlinks: true } });
+
+      expect(vfs.findSymlink("libs/ui/self")!.target).toEqual(".");
+      expect(vfs.findSymlink("packages/ui/self")).toBeTruthy();
+      expect(vfs.glob("**/*.ts")).toEqual(["libs/ui/button.ts", "packages/ui/button.ts"]);
+    });
+
+    it("should write links instead of copies", () => {
+      vfs = createVFS(storage, { load: { followSymlinks: true } });
+      const target = new MemoryStorageProvider();
+      vfs.finalize(target);
+
+      expect(target.readLink("packages/ui")).toEqual("../libs/ui");
+      expect(target.readLink("app/tsconfig.json")).toEqual("../shared/tsconfig.base.json");
+      expect(target.readLink("libs/ui/self")).toEqual(".");
+      expect(target.readFile("packages/ui/button.ts")?.toString()).toEqual("export const button = 1;\n");
+      expect(target.readDirectory("packages").length).toEqual(1);
+    });
+
+    it("should create and delete links on finalize", () => {
+      vfs = createVFS(storage);
+      vfs.createSymlink("app/ui", "../libs/ui");
+      vfs.deleteSymlink("app/missing.ts");
+      vfs.finalize();
+
+      expect(storage.readLink("app/ui")).toEqual("../libs/ui");
+      expect(storage.readFile("app/ui/button.ts")?.toString()).toEqual("export const button = 1;\n");
+      expect(storage.readLink("app/missing.ts")).toBeNull();
+    });
+
+    it("should delete the links of a removed directory on finalize", () => {
+      vfs = createVFS(storage);
+      vfs.removeDirectory("app", true);
+      vfs.finalize();
+
+      expect(storage.readLink("app/tsconfig.json")).toBeNull();
+      expect(storage.readLink("app/missing.ts")).toBeNull();
+      expect(storage.directoryExists("app")).toBeFalse();
+    });
+
+    it("should report created and deleted links", () => {
+      vfs = createVFS(storage);
+      const batches: IVFSEvent[][] = [];
+      vfs.watchBatched((events) => batches.push(events));
+      vfs.createSymlink("app/ui", "../libs/ui");
+      vfs.deleteSymlink("app/missing.ts");
+
+      expect(batches).toEqual([
+        [{ type: VFSEventType.SymlinkCreated, path: "/app/ui", target: "../libs/ui" }],
+        [{ type: VFSEventType.SymlinkDeleted, path: "/app/missing.ts", target: "./does-not-exist.ts" }]
+      ]);
+    });
+
+    it("should keep symbolic links in archives", () => {
+      cleanupTestingDir(linksDir);
+      fs.mkdirSync(linksDir);
+      for (const extension of ["zip", "tar"]) {
+        const archivePath = path.posix.join(linksDir, `links.${extension}`);
+        const archive = new ArchiveStorageProvider(archivePath);
+        archive.writeFile("libs/ui/button.ts", "");
+        archive.createSymlink("packages/ui", "../libs/ui");
+        archive.save();
+
+        expect(new ArchiveStorageProvider(archivePath).readLink("packages/ui")).toEqual("../libs/ui");
+      }
+    });
+
+    it("should load symbolic links of the physical file system", () => {
+      cleanupTestingDir(linksDir);
+      fs.mkdirSync(path.posix.join(linksDir, "libs/ui"), { recursive: true });
+      fs.writeFileSync(path.posix.join(linksDir, "libs/ui/button.ts"), "");
+      fs.symlinkSync("../..", path.posix.join(linksDir, "libs/ui/root"));
+      fs.symlinkSync("libs/ui", path.posix.join(linksDir, "ui"));
+      vfs = new TypeScriptVFS(linksDir, {}, undefined, undefined, true, { load: { followSymlinks: true } });
+
+      expect(vfs.glob("**")).toEqual(["libs/ui/button.ts", "ui/button.ts"]);
+      expect(vfs.findSymlink("ui/root")!.target).toEqual("../..");
+    });
+  });
+
+  describe("Project config tests", () => {
+    let storage: MemoryStorageProvider;
+
+    beforeEach(() => {
+      storage = new MemoryStorageProvider({
+        "tsconfig.json": JSON.stringify({
+          extends: "./configs/base.json",
+          compilerOptions: { strict: true },
+          include: ["src"],
+          exclude: ["src/**/*.spec.ts"]
+        }),
+        "configs/base.json": JSON.stringify({ compilerOptions: { target: "es2017" } }),
+        "src/app.ts": "export function identity(value) { return value; }\n",
+        "src/app.spec.ts": "const spec: number = 'spec';\n",
+        "scripts/tool.ts": "const tool: number = 'tool';\n"
+      });
+      vfs = createVFS(storage);
+    });
+
+    it("should read the options and root files from the tsconfig file and the config it extends", () => {
+      vfs.getSourceFiles();
+
+      expect(vfs.projectConfig!.fileNames).toEqual(["/src/app.ts"]);
+      expect(vfs.projectConfig!.options.target).toEqual(ScriptTarget.ES2017);
+      expect(vfs.projectConfig!.options.strict).toBeTrue();
+    });
+
+    it("should check the files of the tsconfig file with its options", () => {
+      const diagnostics = vfs.getDiagnostics();
+
+      expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual([7006]);
+      expect(diagnostics[0].file!.fileName).toEqual("/src/app.ts");
+      expect(vfs.getDiagnostics("scripts/tool.ts")).toEqual([]);
+    });
+
+    it("should parse the tsconfig file again when it changes", () => {
+      vfs.getSourceFiles();
+      vfs.writeFile("tsconfig.json", JSON.stringify({ extends: "./configs/base.json", include: ["src", "scripts"] }));
+
+      expect(vfs.projectConfig!.fileNames).toEqual(["/scripts/tool.ts", "/src/app.spec.ts", "/src/app.ts"]);
+      expect(vfs.getDiagnostics().map(diagnostic => diagnostic.code)).toEqual([2322, 2322]);
+
+      vfs.writeFile("configs/base.json", JSON.stringify({ compilerOptions: { target: "es2020" } }));
+      expect(vfs.projectConfig!.options.target).toEqual(ScriptTarget.ES2020);
+    });
+
+    it("should add the created files matching the include patterns to the program", () => {
+      vfs.getSourceFiles();
+      vfs.createFile("src/utils/format.ts", "export const format = 1;\n");
+      vfs.createFile("scripts/build.ts", "export const build = 1;\n");
+
+      expect(vfs.projectConfig!.fileNames).toEqual(["/src/app.ts", "/src/utils/format.ts"]);
+    });
+
+    it("should resolve modules with the paths of the tsconfig file", () => {
+      storage = new MemoryStorageProvider({
+        "tsconfig.json": JSON.stringify({ compilerOptions: { baseUrl: ".", paths: { "@lib/*": ["lib/*"] } } }),
+        "lib/value.ts": "export const value = 1;\n",
+        "src/app.ts": "import { value } from \"@lib/value\";\nexport const result: number = value;\n"
+      });
+      vfs = createVFS(storage);
+
+      expect(vfs.getDiagnostics()).toEqual([]);
+    });
+
+    it("should read a tsconfig file at another path extending a config from node_modules", () => {
+      storage.writeFile("tsconfig.build.json", JSON.stringify({ extends: "@tsconfig/base/tsconfig.json", files: ["src/app.ts"] }));
+      storage.writeFile("node_modules/@tsconfig/base/tsconfig.json", JSON.stringify({ compilerOptions: { noImplicitAny: false } }));
+      vfs = createVFS(storage, { load: { tsconfig: "tsconfig.build.json" } });
+
+      expect(vfs.getDiagnostics()).toEqual([]);
+      expect(vfs.projectConfig!.fileNames).toEqual(["/src/app.ts"]);
+    });
+
+    it("should compile referenced projects from their sources", () => {
+      storage = new MemoryStorageProvider({
+        "packages/core/tsconfig.json": JSON.stringify({ compilerOptions: { composite: true, outDir: "dist" } }),
+        "packages/core/index.ts": "export const core = 1;\n",
+        "packages/app/tsconfig.json": JSON.stringify({ references: [{ path: "../core" }] }),
+        "packages/app/index.ts": "import { core } from \"../core/index\";\nexport const app: number = core;\n"
+      });
+      vfs = createVFS(storage, { load: { tsconfig: "packages/app/tsconfig.json" } });
+
+      expect(vfs.getDiagnostics()).toEqual([]);
+      expect(vfs.projectConfig!.projectReferences!.map(reference => reference.path)).toEqual(["/packages/core"]);
+    });
+
+    it("should report the errors of the tsconfig file", () => {
+      storage.writeFile("tsconfig.json", JSON.stringify({ compilerOptions: { unknownOption: true } }));
+
+      expect(vfs.getDiagnostics().map(diagnostic => diagnostic.code)).toContain(5023);
+    });
+
+    it("should let the constructor options take precedence over the tsconfig file", () => {
+      vfs = new TypeScriptVFS("/", { strict: false }, undefined, undefined, true, { storage });
+
+      expect(vfs.getDiagnostics()).toEqual([]);
+    });
+
+    it("should ignore the tsconfig file when disabled", () => {
+      vfs = createVFS(storage, { load: { tsconfig: false } });
+
+      expect(vfs.projectConfig).toBeNull();
+      expect(vfs.getDiagnostics().map(diagnostic => diagnostic.file!.fileName)).toEqual(["/src/app.spec.ts", "/scripts/tool.ts"]);
+    });
+  });
+
+  describe("Package type tests", () => {
+    let storage: MemoryStorageProvider;
+
+    beforeEach(() => {
+      storage = new MemoryStorageProvider({
+        "node_modules/greeter/package.json": JSON.stringify({ name: "greeter", types: "dist/index.d.ts" }),
+        "node_modules/greeter/dist/index.d.ts": "export declare function greet(name: string): string;\n",
+        "node_modules/modern/package.json": JSON.stringify({ name: "modern", exports: { ".": { types: "./lib/main.d.ts" } } }),
+        "node_modules/modern/lib/main.d.ts": "export declare const version: number;\n",
+        "node_modules/@types/legacy/index.d.ts": "export declare function run(): void;\n",
+        "node_modules/@types/env/index.d.ts": "declare const ENV_NAME: string;\n",
+        "src/app.ts": "import { greet } from \"greeter\";\nimport { run } from \"legacy\";\nexport const message: string = greet(ENV_NAME);\nrun();\n"
+      });
+    });
+
+    it("should resolve the types of packages and @types from node_modules", () => {
+      vfs = createVFS(storage);
+
+      expect(vfs.getDiagnostics()).toEqual([]);
+      expect(vfs.getSourceFiles().map(sourceFile => sourceFile.fileName)).toContain("/node_modules/greeter/dist/index.d.ts");
+    });
+
+    it("should resolve the types of the package exports", () => {
+      vfs = new TypeScriptVFS("/", { module: ModuleKind.ESNext, moduleResolution: ts.ModuleResolutionKind.Bundler }, undefined, undefined, true, { storage });
+      vfs.createFile("src/modern.ts", "import { version } from \"modern\";\nexport const major: number = version;\n");
+
+      expect(vfs.getDiagnostics("src/modern.ts")).toEqual([]);
+    });
+
+    it("should report the imports of packages that are not installed", () => {
+      vfs = createVFS(storage);
+      vfs.createFile("src/missing.ts", "import { missing } from \"missing\";\n");
+
+      expect(vfs.getDiagnostics("src/missing.ts").map(diagnostic => diagnostic.code)).toEqual([2307]);
+    });
+
+    it("should neither track nor write the package files", () => {
+      vfs = createVFS(storage);
+      vfs.getDiagnostics();
+      spyOn(storage, "writeFile").and.callThrough();
+      vfs.writeFile("src/app.ts", "export const message = 1;\n");
+
+      expect(vfs.findFile("node_modules/greeter/dist/index.d.ts")).toBeNull();
+      expect(vfs.getPendingChanges().map(change => change.path)).toEqual(["/src/app.ts"]);
+
+      vfs.finalize();
+      expect((storage.writeFile as jasmine.Spy).calls.allArgs().map(args => args[0])).toEqual(["/src/app.ts"]);
+    });
+  });
+
+  describe("Formatting tests", () => {
+    let storage: MemoryStorageProvider;
+
+    beforeEach(() => {
+      storage = new MemoryStorageProvider({
+        "src/app.ts": "export function sum(a:number,b:number){\nreturn a+b;\n}\n",
+        "src/formatted.ts": "export const value = 1;\n",
+        "lib/util.ts": "export const util={a:1};\n"
+      });
+      vfs = createVFS(storage);
+    });
+
+    it("should format a file with the default settings", () => {
+      expect(vfs.formatFile("src/app.ts")).toBeTrue();
+      expect(vfs.readFile("src/app.ts")).toEqual("export function sum(a: number, b: number) {\n    return a + b;\n}\n");
+      expect(vfs.formatFile("src/formatted.ts")).toBeFalse();
+      expect(vfs.formatFile("src/missing.ts")).toBeFalse();
+    });
+
+    it("should track the formatting as a modification", () => {
+      vfs.formatFile("src/app.ts");
+
+      expect(vfs.getPendingChanges()).toEqual([{ path: "/src/app.ts", state: FileState.Modified }]);
+      expect(vfs.undo()).toBeTrue();
+      expect(vfs.readFile("src/app.ts")).toEqual("export function sum(a:number,b:number){\nreturn a+b;\n}\n");
+    });
+
+    it("should read the settings from the .editorconfig files", () => {
+      vfs.createFile(".editorconfig", "root = true\n\n[*]\nindent_style = space\nindent_size = 2\n\n[lib/**.ts]\nindent_style = tab\n");
+      vfs.createFile("lib/other.ts", "function other(){\nreturn 1;\n}\n");
+      vfs.formatFile("src/app.ts");
+      vfs.formatFile("lib/other.ts");
+
+      expect(vfs.readFile("src/app.ts")).toEqual("export function sum(a: number, b: number) {\n  return a + b;\n}\n");
+      expect(vfs.readFile("lib/other.ts")).toEqual("function other() {\n\treturn 1;\n}\n");
+    });
+
+    it("should let the closer .editorconfig files and the settings take precedence", () => {
+      vfs.createFile(".editorconfig", "[*.ts]\nindent_size = 2\n");
+      vfs.createFile("src/.editorconfig", "[*.ts]\nindent_size = 8\n");
+      vfs.createFile("lib/other.ts", "function other(){\nreturn 1;\n}\n");
+      vfs.formatFile("src/app.ts");
+      vfs.formatFile("lib/other.ts", { indentSize: 3 });
+
+      expect(vfs.readFile("src/app.ts")).toEqual("export function sum(a: number, b: number) {\n        return a + b;\n}\n");
+      expect(vfs.readFile("lib/other.ts")).toEqual("function other() {\n   return 1;\n}\n");
+    });
+
+    it("should format the files matching the patterns", () => {
+      vfs.createFile("src/data.json", "{\"a\":1}");
+
+      expect(vfs.formatAll("src/**").map(file => file.path)).toEqual(["/src/app.ts"]);
+      expect(vfs.readFile("lib/util.ts")).toEqual("export const util={a:1};\n");
+      expect(vfs.formatAll().map(file => file.path)).toEqual(["/lib/util.ts"]);
+      expect(vfs.readFile("lib/util.ts")).toEqual("export const util = { a: 1 };\n");
+    });
+
+    it("should keep the line endings of the file", () => {
+      vfs.writeFile("src/app.ts", "export function sum(a:number,b:number){\r\nreturn a+b;\r\n}\r\n");
+      vfs.formatFile("src/app.ts");
+
+      expect(vfs.readFile("src/app.ts")).toEqual("export function sum(a: number, b: number) {\r\n    return a + b;\r\n}\r\n");
+    });
+  });
+
+  describe("Code fix tests", () => {
+    let storage: MemoryStorageProvider;
+
+    beforeEach(() => {
+      storage = new MemoryStorageProvider({
+        "lib/math.ts": "export function add(a: number, b: number) { return a + b; }\nexport function sub(a: number, b: number) { return a - b; }\n",
+        "lib/strings.ts": "export const upper = (text: string) => text.toUpperCase();\n",
+        "src/app.ts": "import { upper } from \"../lib/strings\";\nimport { sub, add } from \"../lib/math\";\nexport const result = add(1, 2);\n",
+        "src/shape.ts": "interface Shape {\n    area(): number;\n}\nexport class Square implements Shape {\n}\n",
+        "src/calc.ts": "export const total = add(1, 2);\n",
+        "tsconfig.json": "{}"
+      });
+      vfs = createVFS(storage);
+    });
+
+    it("should organize the imports of the files matching the patterns", () => {
+      vfs.writeFile("lib/strings.ts", "import { add } from \"./math\";\nexport const upper = (text: string) => text.toUpperCase();\n");
+
+      expect(vfs.organizeImports("src/**").map(file => file.path)).toEqual(["/src/app.ts"]);
+      expect(vfs.readFile("src/app.ts")).toEqual("import { add } from \"../lib/math\";\nexport const result = add(1, 2);\n");
+      expect(vfs.readFile("lib/strings.ts")).toContain("import { add }");
+      expect(vfs.getPendingChanges().map(change => change.path)).toEqual(["/lib/strings.ts", "/src/app.ts"]);
+    });
+
+    it("should apply the fixes of the errors", () => {
+      const changedFiles = vfs.applyCodeFixes("src/**");
+
+      expect(changedFiles.map(file => file.path).sort()).toEqual(["/src/calc.ts", "/src/shape.ts"]);
+      expect(vfs.readFile("src/calc.ts")).toEqual("import { add } from \"../lib/math\";\n\nexport const total = add(1, 2);\n");
+      expect(vfs.readFile("src/shape.ts")).toContain("area(): number {");
+      expect(vfs.readFile("src/app.ts")).toContain("import { upper }");
+      expect(vfs.getDiagnostics()).toEqual([]);
+    });
+
+    it("should only apply the fixes with the given ids", () => {
+      vfs.applyCodeFixes("src/**", { fixIds: ["fixMissingImport"] });
+
+      expect(vfs.readFile("src/calc.ts")).toContain("import { add }");
+      expect(vfs.readFile("src/shape.ts")).toEqual("interface Shape {\n    area(): number;\n}\nexport class Square implements Shape {\n}\n");
+    });
+
+    it("should fix the suggestions with the given codes", () => {
+      expect(vfs.applyCodeFixes("src/app.ts", { errorCodes: [6133] }).map(file => file.path)).toEqual(["/src/app.ts"]);
+      expect(vfs.readFile("src/app.ts")).toEqual("import { add } from \"../lib/math\";\nexport const result = add(1, 2);\n");
+    });
+
+    it("should undo the fixes at once", () => {
+      vfs.applyCodeFixes();
+
+      expect(vfs.undo()).toBeTrue();
+      expect(vfs.readFile("src/calc.ts")).toEqual("export const total = add(1, 2);\n");
+      expect(vfs.readFile("src/shape.ts")).toEqual("interface Shape {\n    area(): number;\n}\nexport class Square implements Shape {\n}\n");
+    });
+  });
+
+  describe("Editor query tests", () => {
+    beforeEach(() => {
+      const storage = new MemoryStorageProvider({
+        "lib/strings.ts": "/** Repeats a text */\nexport function repeat(text: string, count: number): string {\n    return text.repeat(count);\n}\n",
+        "node_modules/greeter/package.json": JSON.stringify({ name: "greeter", types: "index.d.ts" }),
+        "node_modules/greeter/index.d.ts": "export declare function greet(name: string): string;\n",
+        "src/app.ts": [
+          "import { repeat } from \"../lib/strings\";",
+          "import { greet } from \"greeter\";",
+          "export const value = repeat(\"a\", 2);",
+          "export const length = value.length + greet(\"b\").length;",
+          "repeat(\"x\", 3);",
+          ""
+        ].join("\n")
+      });
+      vfs = createVFS(storage);
+    });
+
+    it("should return the quick info of a symbol", () => {
+      const quickInfo = vfs.getQuickInfo("src/app.ts", { line: 3, column: 22 })!;
+
+      expect(quickInfo.kind).toEqual("alias");
+      expect(quickInfo.displayText).toEqual("(alias) repeat(text: string, count: number): string\nimport repeat");
+      expect(quickInfo.documentation).toEqual("Repeats a text");
+      expect(quickInfo.range).toEqual({ start: { line: 3, column: 22 }, end: { line: 3, column: 28 } });
+      expect(vfs.getQuickInfo("src/app.ts", { line: 6, column: 1 })).toBeNull();
+      expect(vfs.getQuickInfo("src/missing.ts", 0)).toBeNull();
+    });
+
+    it("should return the definitions of a symbol in the virtual file system", () => {
+      const position = vfs.readFile("src/app.ts")!.indexOf("repeat(\"a\"");
+
+      expect(vfs.getDefinition("src/app.ts", position)).toEqual([{
+        path: "/lib/strings.ts",
+        name: "repeat",
+        kind: "function",
+        containerName: "\"/lib/strings\"",
+        range: { start: { line: 2, column: 17 }, end: { line: 2, column: 23 } },
+        origin: DefinitionOrigin.Project
+      }]);
+    });
+
+    it("should mark the definitions in lib files and packages", () => {
+      const [libDefinition] = vfs.getDefinition("src/app.ts", { line: 4, column: 29 });
+      const [packageDefinition] = vfs.getDefinition("src/app.ts", { line: 4, column: 38 });
+
+      expect(libDefinition.path).toMatch(/^\/lib\..*\.d\.ts$/);
+      expect(libDefinition.origin).toEqual(DefinitionOrigin.Lib);
+      expect(packageDefinition.path).toEqual("/node_modules/greeter/index.d.ts");
+      expect(packageDefinition.origin).toEqual(DefinitionOrigin.Package);
+      expect(packageDefinition.range).toEqual({ start: { line: 1, column: 25 }, end: { line: 1, column: 30 } });
+    });
+
+    it("should return the completions at a position", () => {
+      vfs.createFile("src/complete.ts", "import { value } from \"./app\";\nvalue.");
+      const completions = vfs.getCompletions("src/complete.ts", { line: 2, column: 7 });
+
+      expect(completions.find(completion => completion.name === "toUpperCase")).toEqual(
+        jasmine.objectContaining({ name: "toUpperCase", kind: "method" })
+      );
+      expect(vfs.getCompletions("src/missing.ts", 0)).toEqual([]);
+    });
+
+    it("should return the signature help of a call", () => {
+      const help = vfs.getSignatureHelp("src/app.ts", { line: 5, column: 13 })!;
+
+      expect(help.signatures.map(signature => signature.label)).toEqual(["repeat(text: string, count: number): string"]);
+      expect(help.signatures[0].documentation).toEqual("Repeats a text");
+      expect(help.signatures[0].parameters.map(parameter => parameter.label)).toEqual(["text: string", "count: number"]);
+      expect(help.argumentIndex).toEqual(1);
+      expect(help.argumentCount).toEqual(2);
+      expect(help.range).toEqual({ start: { line: 5, column: 8 }, end: { line: 5, column: 14 } });
+      expect(vfs.getSignatureHelp("src/app.ts", { line: 1, column: 1 })).toBeNull();
+    });
+  });
+
+  describe("Dependency graph tests", () => {
+    beforeEach(() => {
+      const storage = new MemoryStorageProvider({
+        "tsconfig.json": JSON.stringify({ compilerOptions: { baseUrl: ".", paths: { "@shared/*": ["src/shared/*"] } } }),
+        "src/shared/format.ts": "export const format = (value: number) => `${value}`;\n",
+        "src/shared/index.ts": "export * from \"./format\";\n",
+        "src/feature/a.ts": "import { b } from \"./b\";\nimport { format } from \"@shared/format\";\nexport const a = () => format(b());\n",
+        "src/feature/b.ts": "import { c } from \"./c\";\nexport const b = () => c;\n",
+        "src/feature/c.ts": "import \"fs\";\nexport const c = 1;\n",
+        "src/app.ts": "import { a } from \"./feature/a\";\nimport { format } from \"./shared\";\nexport const app = format(a());\n"
+      });
+      vfs = createVFS(storage);
+    });
+
+    it("should resolve the dependencies with the paths and index files", () => {
+      expect(vfs.dependencyGraph.getDependencies("src/app.ts")).toEqual(["/src/feature/a.ts", "/src/shared/index.ts"]);
+      expect(vfs.dependencyGraph.getDependencies("src/feature/a.ts")).toEqual(["/src/feature/b.ts", "/src/shared/format.ts"]);
+      expect(vfs.dependencyGraph.getDependencies("src/feature/c.ts")).toEqual([]);
+      expect(vfs.dependencyGraph.getDependents("src/shared/format.ts")).toEqual(["/src/feature/a.ts", "/src/shared/index.ts"]);
+    });
+
+    it("should return the transitive dependencies and dependents", () => {
+      expect(vfs.dependencyGraph.getTransitiveDependencies("src/app.ts")).toEqual([
+        "/src/feature/a.ts", "/src/feature/b.ts", "/src/feature/c.ts", "/src/shared/format.ts", "/src/shared/index.ts"
+      ]);
+      expect(vfs.dependencyGraph.getTransitiveDependents("src/feature/c.ts")).toEqual(["/src/app.ts", "/src/feature/a.ts", "/src/feature/b.ts"]);
+    });
+
+    it("should order the files after their dependencies", () => {
+      const order = vfs.dependencyGraph.getTopologicalOrder();
+
+      expect(order.length).toEqual(6);
+      for (const filePath of order) {
+        vfs.dependencyGraph.getDependencies(filePath).forEach(dependency => {
+          expect(order.indexOf(dependency)).toBeLessThan(order.indexOf(filePath));
+        });
+      }
+    });
+
+    it("should find the cycles of a folder", () => {
+      expect(vfs.dependencyGraph.findCycles()).toEqual([]);
+
+      vfs.writeFile("src/feature/c.ts", "import { a } from \"./a\";\nexport const c = 1;\n");
+      vfs.createFile("src/self.ts", "import \"./self\";\n");
+
+      expect(vfs.dependencyGraph.findCycles()).toEqual([
+        ["/src/feature/a.ts", "/src/feature/b.ts", "/src/feature/c.ts"],
+        ["/src/self.ts"]
+      ]);
+      expect(vfs.dependencyGraph.findCycles("src/feature/{a,b}.ts")).toEqual([]);
+      expect(vfs.dependencyGraph.findCycles("src/feature/**")).toEqual([["/src/feature/a.ts", "/src/feature/b.ts", "/src/feature/c.ts"]]);
+    });
+
+    it("should follow created, moved and deleted files", () => {
+      vfs.dependencyGraph.getDependencies("src/app.ts");
+      vfs.createFile("src/feature/b.ts/index.ts", "");
+      vfs.createFile("src/main.ts", "import { app } from \"./app\";\n");
+      expect(vfs.dependencyGraph.getDependents("src/app.ts")).toEqual(["/src/main.ts"]);
+
+      vfs.moveFile("src/feature/c.ts", "src/shared");
+      expect(vfs.dependencyGraph.getDependencies("src/feature/b.ts")).toEqual(["/src/shared/c.ts"]);
+
+      vfs.deleteFile("src/feature/b.ts");
+      expect(vfs.dependencyGraph.getDependencies("src/feature/a.ts")).toEqual(["/src/shared/format.ts"]);
+      expect(vfs.dependencyGraph.getDependents("src/shared/c.ts")).toEqual([]);
+    });
+  });
+
+  describe("Template tests", () => {
+    const templatesDir = "testing-templates";
+    let storage: MemoryStorageProvider;
+
+    beforeEach(() => {
+      storage = new MemoryStorageProvider({
+        "templates/component/{{name}}.component.ts.template": "export class {{className}}Component {\n    readonly selector = \"app-{{ name }}\";\n}\n",
+        "templates/component/[withTests]{{name}}.component.spec.ts.template": "import { {{className}}Component } from \"./{{name}}.component\";\n",
+        "templates/component/[!inline]styles/{{name}}.css": ".{{name}} {}\n",
+        "src/app/button/button.component.ts": "export class OldButtonComponent {}\n"
+      });
+      vfs = createVFS(storage);
+    });
+
+    afterAll(() => {
+      cleanupTestingDir(templatesDir);
+    });
+
+    it("should render the names, content and conditions of a template of the VFS", () => {
+      const files = vfs.applyTemplate(vfs.findDirectory("templates/component")!, "src/app/card", { name: "card", className: "Card", withTests: true, inline: false })!;
+
+      expect(files.map(file => file.path).sort()).toEqual([
+        "/src/app/card/card.component.spec.ts",
+        "/src/app/card/card.component.ts",
+        "/src/app/card/styles/card.css"
+      ]);
+      expect(vfs.readFile("src/app/card/card.component.ts")).toEqual("export class CardComponent {\n    readonly selector = \"app-card\";\n}\n");
+      expect(vfs.readFile("src/app/card/card.component.spec.ts")).toEqual("import { CardComponent } from \"./card.component\";\n");
+      expect(vfs.getPendingChanges().map(change => change.state)).toEqual([FileState.New, FileState.New, FileState.New]);
+
+      vfs.applyTemplate(vfs.findDirectory("templates/component")!, vfs.findDirectory("src/app")!, { name: "list", className: "List", withTests: false, inline: true });
+      expect(vfs.glob("src/app/*")).toEqual(["src/app/list.component.ts"]);
+    });
+
+    it("should fail on undefined variables without creating files", () => {
+      expect(() => vfs.applyTemplate(vfs.findDirectory("templates/component")!, "src/app/card", { name: "card", withTests: true, inline: true }))
+        .toThrowError("The template variable className is not defined.");
+      expect(vfs.findDirectory("src/app/card")).toBeNull();
+    });
+
+    it("should apply the conflict policy to the files that exist", () => {
+      const template = vfs.findDirectory("templates/component")!;
+      const variables = { name: "button", className: "Button", withTests: false, inline: true };
+
+      expect(vfs.applyTemplate(template, "src/app/button", variables)).toBeNull();
+      expect(vfs.readFile("src/app/button/button.component.ts")).toEqual("export class OldButtonComponent {}\n");
+
+      vfs.applyTemplate(template, "src/app/button", variables, ConflictPolicy.AutoSuffix);
+      expect(vfs.readFile("src/app/button/button(1).component.ts")).toContain("ButtonComponent");
+      expect(vfs.readFile("src/app/button/button.component.ts")).toEqual("export class OldButtonComponent {}\n");
+
+      vfs.applyTemplate(template, "src/app/button", variables, ConflictPolicy.Overwrite);
+      expect(vfs.readFile("src/app/button/button.component.ts")).toContain("export class ButtonComponent");
+      expect(vfs.getPendingChanges()).toContain({ path: "/src/app/button/button.component.ts", state: FileState.Modified });
+    });
+
+    it("should copy a template from a physical directory and write it on finalize", () => {
+      cleanupTestingDir(templatesDir);
+      fs.mkdirSync(path.join(templatesDir, "[withTests]test"), { recursive: true });
+      fs.writeFileSync(path.join(templatesDir, "{{name}}.ts"), "export const {{name}} = {{value}};\n");
+      fs.writeFileSync(path.join(templatesDir, "[withTests]test", "{{name}}.spec.ts"), "import \"../{{name}}\";\n");
+      fs.writeFileSync(path.join(templatesDir, "logo.png"), Buffer.from([0x89, 0x50, 0x00, 0x7b, 0x7b]));
+
+      vfs.applyTemplate(templatesDir, "src/config", { name: "config", value: 42, withTests: true });
+      vfs.finalize();
+
+      expect(storage.readFile("src/config/config.ts")?.toString()).toEqual("export const config = 42;\n");
+      expect(storage.readFile("src/config/test/config.spec.ts")?.toString()).toEqual("import \"../config\";\n");
+      expect(storage.readFile("src/config/logo.png")).toEqual(Buffer.from([0x89, 0x50, 0x00, 0x7b, 0x7b]));
+      expect(() => vfs.applyTemplate("testing-missing-template", "src", {})).toThrowError(/does not exist/);
+    });
+  });
+
+  describe("Finalization tests", () => {
+    beforeEach(() => {
+      cleanupTestingDir("testing");
+      setupTestingDir("testing", "testing/src", "testing/src/test.ts");
+      vfs = new TypeScriptVFS("./testing");
+    });
+
+    afterAll(() => {
+      cleanupTestingDir("testing");
+    });
+
+    it("should add new files to the physical representation of the vfs", () => {
+      vfs.addDirectory("src/app");
+      const content = "console.log('Hello, world!!!');";
+      vfs.createFile("src/app/another-test.ts", content);
+      vfs.finalize();
+
+      expect(fs.existsSync("./testing/src/app")).toBeTruthy();
+      expect(fs.existsSync("./testing/src/app/another-test.ts")).toBeTruthy();
+      expect(fs.readFileSync("./testing/src/app/another-test.ts", "utf8")).toEqual(content);
+      expect(fs.existsSync("./testing/src/test.ts")).toBeTruthy();
+    });
+
+    it("should update the contents of the files in the physical representation of the vfs", () => {
+      const content = "console.log('Hello, world!!!');";
+      vfs.writeFile("src/test.ts", content);
+      vfs.finalize();
+
+      expect(fs.existsSync("./testing/src/test.ts")).toBeTruthy();
+      expect(fs.readFileSync("./testing/src/test.ts", "utf8")).toEqual(content);
+    });
+
+    it("should add every created file to the physical representation of the vfs", () => {
+      vfs.createFile("src/first.ts", "export const first = 1;");
+      vfs.createFile("src/second.ts", "export const second = 2;");
+      vfs.finalize();
+
+      expect(fs.readFileSync("./testing/src/first.ts", "utf8")).toEqual("export const first = 1;");
+      expect(fs.readFileSync("./testing/src/second.ts", "utf8")).toEqual("export const second = 2;");
+    });
+
+    it("should move files in the physical representation of the vfs", () => {
+      vfs.addDirectory("src/app");
+      vfs.moveFile("src/test.ts", "src/app", "moved.ts");
+      vfs.finalize();
+
+      expect(fs.existsSync("./testing/src/test.ts")).toBeFalsy();
+      expect(fs.readFileSync("./testing/src/app/moved.ts", "utf8")).toEqual("console.log('Hello, world!');");
+    });
+
+    it("should clear the pending changes after finalizing", () => {
+      vfs.createFile("src/first.ts", "export const first = 1;");
+      vfs.finalize();
+
+      expect(vfs.getPendingChanges().length).toEqual(0);
     });
 
     it("should remove files from the physical representation of the vfs", () => {
@@ -0,0 +1,5 @@
+export enum ArchiveFormat {
+    Zip = 'zip',
+    Tar = 'tar',
+    TarGzip = 'tgz'
+}
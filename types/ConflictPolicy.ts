@@ -0,0 +1,14 @@
+/**
+ * What happens when a directory is moved or copied to a path that already has a directory
+ * or when a template creates files that already exist
+ */
+export enum ConflictPolicy {
+    /** The existing directory is replaced */
+    Overwrite = 'overwrite',
+    /** The contents are merged into the existing directory, files with the same name are replaced */
+    Merge = 'merge',
+    /** Nothing is changed */
+    Fail = 'fail',
+    /** A number is appended to the name, e.g. `feature(1)` or `button(1).ts` */
+    AutoSuffix = 'autoSuffix'
+}
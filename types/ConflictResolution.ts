@@ -0,0 +1,13 @@
+/**
+ * What `finalize()` does with the files that were changed in the storage since they were loaded
+ */
+export enum ConflictResolution {
+    /** Nothing is written and an error is thrown */
+    Fail = 'fail',
+    /** The changes in the storage are replaced */
+    Overwrite = 'overwrite',
+    /** The files are left as they are in the storage */
+    Skip = 'skip',
+    /** Both changes are merged line by line, lines changed differently are kept between conflict markers */
+    Merge = 'merge'
+}
@@ -0,0 +1,8 @@
+export enum DefinitionOrigin {
+    /** A file of the virtual file system */
+    Project = 'project',
+    /** A default lib file of TypeScript, e.g. `lib.es5.d.ts` */
+    Lib = 'lib',
+    /** A file of a package in `node_modules` */
+    Package = 'package'
+}
@@ -1,5 +1,6 @@
 export enum FileState {
     New = 'new',
     Modified = 'modified',
-    Deleted = 'deleted'
+    Deleted = 'deleted',
+    Moved = 'moved'
 }
@@ -0,0 +1,8 @@
+export enum FileEncoding {
+    Utf8 = 'utf8',
+    Utf16LE = 'utf16le',
+    Utf16BE = 'utf16be',
+    Latin1 = 'latin1',
+    /** The content is kept as raw bytes */
+    Binary = 'binary'
+}
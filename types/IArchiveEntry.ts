@@ -0,0 +1,8 @@
+export interface IArchiveEntry {
+    /** The path of the entry in the archive, without leading or trailing slashes */
+    path: string;
+    /** The content of a file or null for directories and symbolic links */
+    content: Buffer | null;
+    /** The target of a symbolic link */
+    linkTarget?: string;
+}
@@ -0,0 +1,9 @@
+export interface ICodeFixOptions {
+    /** Fixes to apply to the whole files, e.g. `fixMissingImport` or `unusedIdentifier_delete` */
+    fixIds?: string[];
+    /**
+     * The codes of the diagnostics to fix, suggestions included. Only the errors are fixed if neither the codes
+     * nor the fix ids are provided, only the fix ids are applied if the codes are not provided.
+     */
+    errorCodes?: number[];
+}
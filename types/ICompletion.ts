@@ -0,0 +1,13 @@
+import { ITextRange } from "./ITextRange";
+
+export interface ICompletion {
+    name: string;
+    /** The kind of the completed symbol, e.g. `property` or `keyword` */
+    kind: string;
+    /** Editors sort the completions by this text */
+    sortText: string;
+    /** The text to insert if it differs from the name */
+    insertText?: string;
+    /** The range the completion replaces, the word at the position if not set */
+    replacementRange?: ITextRange;
+}
@@ -0,0 +1,16 @@
+import { DefinitionOrigin } from "./DefinitionOrigin";
+import { ITextRange } from "./ITextRange";
+
+export interface IDefinition {
+    /** The path of the file the symbol is defined in */
+    path: string;
+    name: string;
+    /** The kind of the symbol, e.g. `function` or `class` */
+    kind: string;
+    /** The name of the class, namespace or module the symbol is defined in */
+    containerName: string;
+    /** The range of the name of the symbol in the definition */
+    range: ITextRange;
+    /** Whether the definition is in the virtual file system, a lib file or a package */
+    origin: DefinitionOrigin;
+}
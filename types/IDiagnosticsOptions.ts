@@ -0,0 +1,8 @@
+import { DiagnosticCategory } from "typescript";
+
+export interface IDiagnosticsOptions {
+    /** Only return diagnostics of these categories */
+    categories?: DiagnosticCategory[];
+    /** Only return diagnostics with these codes */
+    codes?: number[];
+}
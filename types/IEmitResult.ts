@@ -0,0 +1,8 @@
+import { Diagnostic } from "typescript";
+
+export interface IEmitResult {
+    /** The emitted files keyed by their output path */
+    files: Map<string, string>;
+    diagnostics: readonly Diagnostic[];
+    emitSkipped: boolean;
+}
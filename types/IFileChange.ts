@@ -0,0 +1,9 @@
+import { FileState } from "./FIleState";
+
+export interface IFileChange {
+    /** The current path of the file in the virtual file system */
+    path: string;
+    state: FileState;
+    /** The path the file had on disk before it was moved, only set for moved files */
+    previousPath?: string;
+}
@@ -0,0 +1,23 @@
+import { IVFSEvent } from "./IVFSEvent";
+import { IWatchOptions } from "./IWatchOptions";
+
+export interface IFileChangeTracker {
+    /**
+     * Records that the content of a file was changed outside of the file system API
+     * @param filePath The path of the changed file
+     * @param previousContent The content of the file before the change
+     */
+    markModified(filePath: string, previousContent?: string): void;
+
+    /**
+     * Subscribes to the changes of files and directories, the listener is called as soon as a change happens
+     * @returns A function that removes the subscription
+     */
+    watch(listener: (event: IVFSEvent) => void, options?: IWatchOptions): () => void;
+
+    /**
+     * Subscribes to the changes of files and directories, the listener receives the changes once per flush
+     * @returns A function that removes the subscription
+     */
+    watchBatched(listener: (events: IVFSEvent[]) => void, options?: IWatchOptions): () => void;
+}
@@ -0,0 +1,11 @@
+/**
+ * A file that was changed in the storage since it was loaded and that `finalize()` would change as well
+ */
+export interface IFileConflict {
+    /** The path of the file in the storage */
+    path: string;
+    /** The content of the file in the storage, null if it was deleted */
+    storageContent: string | null;
+    /** The content `finalize()` writes, null if it deletes the file */
+    content: string | null;
+}
@@ -0,0 +1,26 @@
+import { FileState } from "./FIleState";
+
+export interface IDiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    /** The lines of the hunk, prefixed with ' ', '-' or '+' */
+    lines: string[];
+}
+
+export interface IFileDiff {
+    path: string;
+    state: FileState;
+    /** The path of the file on disk before it was moved, only set for moved files */
+    previousPath?: string;
+    isNew: boolean;
+    isDeleted: boolean;
+    /** Whether the file is binary, binary files have no content and no hunks */
+    isBinary: boolean;
+    oldContent: string | null;
+    newContent: string | null;
+    hunks: IDiffHunk[];
+    /** The diff of the file in the unified diff format */
+    unifiedDiff: string;
+}
@@ -0,0 +1,21 @@
+export interface IImportSpecifier {
+    /** The name of the imported symbol */
+    name: string;
+    /** The local name of the symbol, if it differs from the imported one */
+    alias?: string;
+}
+
+export interface IImportOptions {
+    moduleSpecifier: string;
+    defaultImport?: string;
+    namespaceImport?: string;
+    namedImports?: (string | IImportSpecifier)[];
+    typeOnly?: boolean;
+}
+
+export interface IImportRemovalOptions {
+    defaultImport?: boolean;
+    namespaceImport?: boolean;
+    /** The imported or local names of the named imports to remove */
+    namedImports?: string[];
+}
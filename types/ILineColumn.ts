@@ -0,0 +1,6 @@
+export interface ILineColumn {
+    /** 1-based line number */
+    line: number;
+    /** 1-based column number */
+    column: number;
+}
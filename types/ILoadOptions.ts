@@ -0,0 +1,15 @@
+export interface ILoadOptions {
+    /** Files and directories not to load in `.gitignore` syntax, in addition to `node_modules` and `.git` */
+    ignore?: string[];
+    /** Whether the `.gitignore` files of the storage exclude files from loading, `true` by default */
+    useGitIgnore?: boolean;
+    /** The size in bytes above which files are not loaded */
+    maxFileSize?: number;
+    /** Whether symbolic links are loaded as the files and directories they point to, `false` by default */
+    followSymlinks?: boolean;
+    /**
+     * The path of the tsconfig file the compiler options and root files are read from, `tsconfig.json` at the root by default.
+     * `false` ignores the tsconfig file.
+     */
+    tsconfig?: string | false;
+}
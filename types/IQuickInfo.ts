@@ -0,0 +1,12 @@
+import { ITextRange } from "./ITextRange";
+
+export interface IQuickInfo {
+    /** The kind of the symbol, e.g. `function` or `const` */
+    kind: string;
+    /** The declaration of the symbol as editors show it on hover, e.g. `const value: number` */
+    displayText: string;
+    /** The documentation comment of the symbol */
+    documentation: string;
+    /** The range of the symbol the info is about */
+    range: ITextRange;
+}
@@ -0,0 +1,11 @@
+export interface IRenameOptions {
+    /** Also rename occurrences of the symbol's name in string literals */
+    findInStrings?: boolean;
+    /** Also rename occurrences of the symbol's name in comments */
+    findInComments?: boolean;
+    /**
+     * Introduce aliases when renaming imported or exported symbols instead of renaming them across modules,
+     * e.g. renaming the local `foo` of `import { foo }` results in `import { foo as newName }`
+     */
+    preserveImportAliases?: boolean;
+}
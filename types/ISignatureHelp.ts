@@ -0,0 +1,28 @@
+import { ITextRange } from "./ITextRange";
+
+export interface ISignatureParameter {
+    name: string;
+    /** The text of the parameter in the signature, e.g. `count: number` */
+    label: string;
+    documentation: string;
+    isOptional: boolean;
+}
+
+export interface ISignature {
+    /** The whole signature, e.g. `repeat(text: string, count: number): string` */
+    label: string;
+    documentation: string;
+    parameters: ISignatureParameter[];
+}
+
+export interface ISignatureHelp {
+    /** The overloads of the called function */
+    signatures: ISignature[];
+    /** The index of the signature that matches the arguments best */
+    selectedSignature: number;
+    /** The index of the argument at the position */
+    argumentIndex: number;
+    argumentCount: number;
+    /** The range of the arguments of the call */
+    range: ITextRange;
+}
@@ -3,6 +3,13 @@ import ts from "typescript";
 
 export interface ISourceManager {
     getSourceFile(filePath: string, content: string): ts.SourceFile | undefined;
+    getSourceText(sourceFile: ts.SourceFile): string;
+    updateSourceFile(sourceFile: ts.SourceFile, transformers: ts.TransformerFactory<ts.SourceFile>[]): string | null;
     updateEnvironment(filesMap: Map<string, string>): void;
+    updateProject(
+        compilerOptions: ts.CompilerOptions,
+        rootFileNames?: readonly string[],
+        projectReferences?: readonly ts.ProjectReference[]
+    ): void;
     get languageService(): VFSLanguageService | undefined;
 }
@@ -0,0 +1,40 @@
+export interface IStorageEntry {
+    name: string;
+    /** Whether the entry is a directory, for symbolic links whether their target is one */
+    isDirectory: boolean;
+    isSymbolicLink?: boolean;
+}
+
+/**
+ * The storage the virtual file system is loaded from and whose files `finalize()` updates.
+ * Paths are absolute paths of the virtual file system, e.g. `/src/app.ts`.
+ */
+export interface IStorageProvider {
+    /** Whether changes can not be written to the storage, e.g. when it is the root of the physical file system */
+    readonly isReadOnly: boolean;
+
+    /** Returns the files and directories in a directory */
+    readDirectory(dirPath: string): IStorageEntry[];
+    fileExists(filePath: string): boolean;
+    /** Returns the bytes of a file or null if the file does not exist */
+    readFile(filePath: string): Buffer | null;
+    /** Returns the size of a file in bytes without reading it or null if the file does not exist */
+    getFileSize(filePath: string): number | null;
+    /** Returns the time a file was last modified in milliseconds or null if the file does not exist */
+    getModifiedTime(filePath: string): number | null;
+    /** Writes a file, the missing parent directories are created */
+    writeFile(filePath: string, content: string | Buffer): void;
+    deleteFile(filePath: string): void;
+    directoryExists(dirPath: string): boolean;
+    createDirectory(dirPath: string): void;
+    /** Removes an empty directory */
+    deleteDirectory(dirPath: string): void;
+    /** Returns the target of a symbolic link as it is stored or null if the path is not a link */
+    readLink(linkPath: string): string | null;
+    /** Creates a symbolic link, an existing file at the path is replaced */
+    createSymlink(linkPath: string, target: string): void;
+    /** Returns the path with every symbolic link followed or null if it does not exist or the links form a loop */
+    realPath(entryPath: string): string | null;
+    /** Persists the changes written to the storage, e.g. saves an archive */
+    save(): void;
+}
@@ -0,0 +1,7 @@
+import { ILineColumn } from "./ILineColumn";
+
+export interface ITextRange {
+    start: ILineColumn;
+    /** The position right after the last character of the range */
+    end: ILineColumn;
+}
@@ -0,0 +1,15 @@
+import { VFSEventType } from "./VFSEventType";
+
+export interface IVFSEvent {
+    type: VFSEventType;
+    /** The path of the file, directory or symbolic link in the virtual file system, the new path for moved files */
+    path: string;
+    /** The path the file had before it was moved, only set for moved files */
+    previousPath?: string;
+    /** The content of the file, the last content for deleted files. Not set for directories. */
+    content?: string;
+    /** The content of the file before it was modified, if known */
+    previousContent?: string;
+    /** The path a symbolic link points to, only set for links */
+    target?: string;
+}
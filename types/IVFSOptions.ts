@@ -0,0 +1,12 @@
+import { ILoadOptions } from "./ILoadOptions";
+import { IStorageProvider } from "./IStorageProvider";
+import { IWriteOptions } from "./IWriteOptions";
+
+export interface IVFSOptions {
+    /** The storage the files are loaded from and `finalize()` writes to, the directory of the root path by default */
+    storage?: IStorageProvider;
+    /** Which files of the storage are loaded and how */
+    load?: ILoadOptions;
+    /** How `finalize()` writes the changes to the storage */
+    write?: IWriteOptions;
+}
@@ -0,0 +1,8 @@
+export interface IWatchOptions {
+    /** Only report changes under this directory */
+    directory?: string;
+    /** Glob patterns relative to the watched directory, the ones starting with `!` exclude paths */
+    patterns?: string | string[];
+    /** Whether the patterns match files and directories starting with a dot */
+    dot?: boolean;
+}
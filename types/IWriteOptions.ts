@@ -0,0 +1,9 @@
+import { ConflictResolution } from "./ConflictResolution";
+import { LineEnding } from "./LineEnding";
+
+export interface IWriteOptions {
+    /** Converts the line endings of every written text file, the line endings of each file are kept if not set */
+    lineEnding?: LineEnding;
+    /** What `finalize()` does with the files changed in the storage since they were loaded, it fails by default */
+    conflictResolution?: ConflictResolution;
+}
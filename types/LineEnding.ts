@@ -0,0 +1,4 @@
+export enum LineEnding {
+    LF = '\n',
+    CRLF = '\r\n'
+}
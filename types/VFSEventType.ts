@@ -0,0 +1,10 @@
+export enum VFSEventType {
+    FileCreated = 'fileCreated',
+    FileModified = 'fileModified',
+    FileDeleted = 'fileDeleted',
+    FileMoved = 'fileMoved',
+    DirectoryAdded = 'directoryAdded',
+    DirectoryRemoved = 'directoryRemoved',
+    SymlinkCreated = 'symlinkCreated',
+    SymlinkDeleted = 'symlinkDeleted'
+}
@@ -1,3 +1,32 @@
+export * from "./ArchiveFormat";
+export * from "./ConflictPolicy";
+export * from "./ConflictResolution";
+export * from "./DefinitionOrigin";
+export * from "./FileEncoding";
 export * from "./FIleState";
+export * from "./IArchiveEntry";
+export * from "./ICodeFixOptions";
+export * from "./ICompletion";
+export * from "./IDefinition";
+export * from "./IDiagnosticsOptions";
+export * from "./IEmitResult";
+export * from "./IFileChange";
+export * from "./IFileChangeTracker";
+export * from "./IFileConflict";
+export * from "./IFileDiff";
+export * from "./IImportOptions";
+export * from "./ILineColumn";
+export * from "./ILoadOptions";
+export * from "./IQuickInfo";
+export * from "./IRenameOptions";
+export * from "./ISignatureHelp";
 export * from "./ISourceManager";
+export * from "./IStorageProvider";
+export * from "./ITextRange";
+export * from "./IVFSEvent";
+export * from "./IVFSOptions";
+export * from "./IWatchOptions";
+export * from "./IWriteOptions";
+export * from "./LineEnding";
+export * from "./VFSEventType";
 export * from "./VFSLanguageService";
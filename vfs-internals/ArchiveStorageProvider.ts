@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import * as zlib from "zlib";
+import { FORWARD_SLASH_TOKEN } from "../global-constants";
+import { ArchiveFormat, IArchiveEntry } from "../types";
+import { MemoryStorageProvider } from "./MemoryStorageProvider";
+import { TarArchive } from "./TarArchive";
+import { ZipArchive } from "./ZipArchive";
+
+/**
+ * Keeps the files of a zip or tar archive in memory and writes them back to the archive on `save()`
+ */
+export class ArchiveStorageProvider extends MemoryStorageProvider {
+    public readonly format: ArchiveFormat;
+
+    /**
+     * @param archivePath The path of the archive on disk, it is created on save if it does not exist
+     * @param format The format of the archive, detected from the extension of the path if not provided
+     */
+    constructor(public readonly archivePath: string, format?: ArchiveFormat) {
+        super();
+        this.format = format || this.detectFormat(archivePath);
+        if (fs.existsSync(archivePath)) {
+            this.load(fs.readFileSync(archivePath));
+        }
+    }
+
+    public save(): void {
+        const entries: IArchiveEntry[] = [];
+        [...this.directories].sort().forEach(dirPath => {
+            if (dirPath !== FORWARD_SLASH_TOKEN) {
+                entries.push({ path: dirPath.substring(1), content: null });
+            }
+        });
+        [...this.files.keys()].sort().forEach(filePath => {
+            entries.push({ path: filePath.substring(1), content: this.files.get(filePath)! });
+        });
+        [...this.links.keys()].sort().forEach(linkPath => {
+            entries.push({ path: linkPath.substring(1), content: null, linkTarget: this.links.get(linkPath)! });
+        });
+
+        fs.writeFileSync(this.archivePath, this.encode(entries));
+    }
+
+    private load(buffer: Buffer): void {
+        for (const entry of this.decode(buffer)) {
+            if (!entry.path) {
+                continue;
+            }
+
+            if (entry.linkTarget !== undefined) {
+                this.createSymlink(entry.path, entry.linkTarget);
+            } else if (entry.content !== null) {
+                this.writeFile(entry.path, entry.content);
+            } else {
+                this.createDirectory(entry.path);
+            }
+        }
+    }
+
+    private decode(buffer: Buffer): IArchiveEntry[] {
+        switch (this.format) {
+            case ArchiveFormat.Zip:
+                return new ZipArchive().read(buffer);
+            case ArchiveFormat.Tar:
+                return new TarArchive().read(buffer);
+            case ArchiveFormat.TarGzip:
+                return new TarArchive().read(zlib.gunzipSync(buffer));
+        }
+    }
+
+    private encode(entries: IArchiveEntry[]): Buffer {
+        switch (this.format) {
+            case ArchiveFormat.Zip:
+                return new ZipArchive().write(entries);
+            case ArchiveFormat.Tar:
+                return new TarArchive().write(entries);
+            case ArchiveFormat.TarGzip:
+                return zlib.gzipSync(new TarArchive().write(entries));
+        }
+    }
+
+    private detectFormat(archivePath: string): ArchiveFormat {
+        const lowerCasePath = archivePath.toLowerCase();
+        if (lowerCasePath.endsWith('.zip')) {
+            return ArchiveFormat.Zip;
+        }
+        if (lowerCasePath.endsWith('.tar')) {
+            return ArchiveFormat.Tar;
+        }
+        if (lowerCasePath.endsWith('.tgz') || lowerCasePath.endsWith('.tar.gz')) {
+            return ArchiveFormat.TarGzip;
+        }
+
+        throw new Error(`Could not detect the archive format of ${archivePath}.`);
+    }
+}
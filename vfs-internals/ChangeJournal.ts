@@ -0,0 +1,148 @@
+import { FileState, IFileChange } from "../types";
+
+/**
+ * Keeps track of the pending changes of every file in the virtual file system, keyed by path.
+ * Consecutive changes to the same file are collapsed into a single change that describes
+ * the difference between the physical and the virtual representation of the file.
+ */
+export class ChangeJournal {
+    private readonly _entries: Map<string, IFileChange> = new Map<string, IFileChange>();
+    private readonly _removedDirectories: Set<string> = new Set<string>();
+    /** The paths of moved files that took the place of a file on disk, it is removed if the moved file goes away again */
+    private readonly _replacedPaths: Set<string> = new Set<string>();
+
+    public get changes(): IFileChange[] {
+        return Array.from(this._entries.values()).map(change => ({ ...change }));
+    }
+
+    /**
+     * The directories that were removed or moved away, deepest first
+     */
+    public get removedDirectories(): string[] {
+        return Array.from(this._removedDirectories).sort().reverse();
+    }
+
+    public get size(): number {
+        return this._entries.size;
+    }
+
+    public getChange(filePath: string): IFileChange | undefined {
+        const change = this._entries.get(filePath);
+        return change ? { ...change } : undefined;
+    }
+
+    public recordCreate(filePath: string): void {
+        const existing = this._entries.get(filePath);
+        if (existing?.state === FileState.Moved) {
+            // the moved file is overridden, the original still has to be removed from disk
+            this.recordSourceDeletion(existing.previousPath!);
+        }
+
+        // a file that is about to be removed from disk is recreated - it is only modified
+        const state = existing?.state === FileState.Deleted || this._replacedPaths.delete(filePath) || this.isMoveSource(filePath)
+            ? FileState.Modified
+            : FileState.New;
+        this._entries.set(filePath, { path: filePath, state });
+    }
+
+    public recordModify(filePath: string): void {
+        const existing = this._entries.get(filePath);
+        if (existing && existing.state !== FileState.Deleted) {
+            // new and moved files are written as a whole, there is nothing more to track
+            return;
+        }
+
+        this._entries.set(filePath, { path: filePath, state: FileState.Modified });
+    }
+
+    public recordDelete(filePath: string): void {
+        const existing = this._entries.get(filePath);
+        this.removeEntry(filePath);
+        switch (existing?.state) {
+            case FileState.New:
+                // the file never made it to disk
+                return;
+            case FileState.Moved:
+                this.recordSourceDeletion(existing.previousPath!);
+                return;
+            default:
+                this._entries.set(filePath, { path: filePath, state: FileState.Deleted });
+        }
+    }
+
+    public recordMove(fromPath: string, toPath: string): void {
+        if (fromPath === toPath) {
+            return;
+        }
+
+        const existing = this._entries.get(fromPath);
+        const overridden = this._entries.get(toPath);
+        if (overridden?.state === FileState.Moved) {
+            this.recordSourceDeletion(overridden.previousPath!);
+        }
+        const replacesStoredFile = overridden?.state === FileState.Deleted
+            || overridden?.state === FileState.Modified
+            || this._replacedPaths.delete(toPath);
+
+        this.removeEntry(fromPath);
+        if (existing?.state === FileState.New) {
+            if (replacesStoredFile) {
+                // the created file overwrites the one on disk - it is only modified
+                this._entries.set(toPath, { path: toPath, state: FileState.Deleted });
+            }
+            this.recordCreate(toPath);
+            return;
+        }
+
+        const previousPath = existing?.state === FileState.Moved ? existing.previousPath! : fromPath;
+        if (previousPath === toPath) {
+            // the file is back where it started, its content might still differ
+            this._entries.set(toPath, { path: toPath, state: FileState.Modified });
+            return;
+        }
+
+        this._entries.set(toPath, { path: toPath, state: FileState.Moved, previousPath });
+        if (replacesStoredFile) {
+            this._replacedPaths.add(toPath);
+        }
+    }
+
+    public recordDirectoryRemoval(dirPath: string): void {
+        this._removedDirectories.add(dirPath);
+    }
+
+    public clear(): void {
+        this._entries.clear();
+        this._removedDirectories.clear();
+        this._replacedPaths.clear();
+    }
+
+    public clone(): ChangeJournal {
+        const journalClone = new ChangeJournal();
+        this._entries.forEach((change, filePath) => journalClone._entries.set(filePath, { ...change }));
+        this._removedDirectories.forEach(dirPath => journalClone._removedDirectories.add(dirPath));
+        this._replacedPaths.forEach(filePath => journalClone._replacedPaths.add(filePath));
+        return journalClone;
+    }
+
+    private isMoveSource(filePath: string): boolean {
+        return Array.from(this._entries.values())
+            .some(change => change.state === FileState.Moved && change.previousPath === filePath);
+    }
+
+    /**
+     * Drops the change of a file that goes away, the file on disk a moved file took the place of is deleted
+     */
+    private removeEntry(filePath: string): void {
+        this._entries.delete(filePath);
+        if (this._replacedPaths.delete(filePath)) {
+            this._entries.set(filePath, { path: filePath, state: FileState.Deleted });
+        }
+    }
+
+    private recordSourceDeletion(filePath: string): void {
+        if (!this._entries.has(filePath)) {
+            this._entries.set(filePath, { path: filePath, state: FileState.Deleted });
+        }
+    }
+}
@@ -0,0 +1,207 @@
+import path from "path";
+import ts from "typescript";
+import { FORWARD_SLASH_TOKEN } from "../global-constants";
+import { GlobMatcher } from "./GlobMatcher";
+
+interface IGraphFile {
+    content: string;
+    /** The module specifiers of the imports, exports and requires of the file */
+    moduleNames: string[];
+}
+
+/**
+ * The import graph of the TypeScript files of the virtual file system.
+ * The graph is brought up to date when it is queried: the changed files are parsed again
+ * and the imports of every file are resolved again when files were added, moved or removed.
+ */
+export class DependencyGraph {
+    private readonly _files: Map<string, IGraphFile> = new Map<string, IGraphFile>();
+    private readonly _dependencies: Map<string, Set<string>> = new Map<string, Set<string>>();
+    private readonly _dependents: Map<string, Set<string>> = new Map<string, Set<string>>();
+
+    /**
+     * @param getFiles Returns the content of the TypeScript files keyed by their absolute path
+     * @param resolveModule Resolves a module specifier to the path of a file of the graph, returns null for other modules
+     */
+    constructor(
+        private readonly getFiles: () => Map<string, string>,
+        private readonly resolveModule: (moduleName: string, containingFile: string) => string | null
+    ) { }
+
+    /**
+     * Returns the files a file imports directly
+     */
+    public getDependencies(filePath: string): string[] {
+        this.update();
+        return [...this._dependencies.get(this.normalize(filePath)) || []].sort();
+    }
+
+    /**
+     * Returns the files that import a file directly
+     */
+    public getDependents(filePath: string): string[] {
+        this.update();
+        return [...this._dependents.get(this.normalize(filePath)) || []].sort();
+    }
+
+    /**
+     * Returns the files a file imports directly or through other files
+     */
+    public getTransitiveDependencies(filePath: string): string[] {
+        this.update();
+        return this.collectReachable(this.normalize(filePath), this._dependencies);
+    }
+
+    /**
+     * Returns the files that import a file directly or through other files, i.e. the files affected by its changes
+     */
+    public getTransitiveDependents(filePath: string): string[] {
+        this.update();
+        return this.collectReachable(this.normalize(filePath), this._dependents);
+    }
+
+    /**
+     * Finds the circular imports between the files matching the patterns, the imports of other files are ignored
+     * @param patterns The glob patterns of the files, every file is included if not provided
+     * @returns The files of each cycle, files that import each other through several cycles are reported as one
+     */
+    public findCycles(patterns: string | string[] = '**'): string[][] {
+        this.update();
+        const matcher = new GlobMatcher(Array.isArray(patterns) ? patterns : [patterns], true);
+        const filePaths = [...this._files.keys()].filter(filePath => matcher.match(filePath));
+        return this.findStronglyConnected(filePaths)
+            .filter(component => component.length > 1 || this._dependencies.get(component[0])!.has(component[0]))
+            .map(component => component.sort());
+    }
+
+    /**
+     * Returns the files ordered so that every file comes after the files it imports.
+     * The files of a cycle cannot be ordered, they are kept next to each other.
+     */
+    public getTopologicalOrder(): string[] {
+        this.update();
+        return this.findStronglyConnected([...this._files.keys()])
+            .reduce((filePaths: string[], component) => [...filePaths, ...component.sort()], []);
+    }
+
+    private update(): void {
+        const files = this.getFiles();
+        let isStructureChanged = files.size !== this._files.size;
+        const changedFiles: string[] = [];
+        for (const [filePath, content] of files) {
+            const file = this._files.get(filePath);
+            if (!file) {
+                isStructureChanged = true;
+            }
+            if (file?.content !== content) {
+                this._files.set(filePath, { content, moduleNames: this.parseModuleNames(content) });
+                changedFiles.push(filePath);
+            }
+        }
+        [...this._files.keys()].filter(filePath => !files.has(filePath)).forEach(filePath => {
+            this._files.delete(filePath);
+            this.setDependencies(filePath, null);
+        });
+
+        // added and removed files change how the imports of the other files resolve
+        (isStructureChanged ? [...this._files.keys()] : changedFiles).forEach(filePath => {
+            const dependencies = this._files.get(filePath)!.moduleNames
+                .map(moduleName => this.resolveModule(moduleName, filePath))
+                .filter((dependency): dependency is string => dependency !== null && this._files.has(dependency));
+            this.setDependencies(filePath, new Set(dependencies));
+        });
+    }
+
+    private parseModuleNames(content: string): string[] {
+        return ts.preProcessFile(content, true, true).importedFiles.map(importedFile => importedFile.fileName);
+    }
+
+    /**
+     * Replaces the dependencies of a file, the dependencies of removed files are null
+     */
+    private setDependencies(filePath: string, dependencies: Set<string> | null): void {
+        this._dependencies.get(filePath)?.forEach(dependency => this._dependents.get(dependency)?.delete(filePath));
+        if (!dependencies) {
+            this._dependencies.delete(filePath);
+            return;
+        }
+
+        this._dependencies.set(filePath, dependencies);
+        dependencies.forEach(dependency => {
+            if (!this._dependents.has(dependency)) {
+                this._dependents.set(dependency, new Set<string>());
+            }
+            this._dependents.get(dependency)!.add(filePath);
+        });
+    }
+
+    private collectReachable(filePath: string, edges: Map<string, Set<string>>): string[] {
+        const reachable = new Set<string>();
+        const pending = [...edges.get(filePath) || []];
+        while (pending.length) {
+            const current = pending.pop()!;
+            if (!reachable.has(current)) {
+                reachable.add(current);
+                pending.push(...edges.get(current) || []);
+            }
+        }
+        reachable.delete(filePath);
+
+        return [...reachable].sort();
+    }
+
+    /**
+     * Groups the files into the sets of files that import each other with Tarjan's algorithm.
+     * The groups come after the groups they import, only the imports between the given files are followed.
+     */
+    private findStronglyConnected(filePaths: string[]): string[][] {
+        const included = new Set(filePaths);
+        const indexes = new Map<string, number>();
+        const lowLinks = new Map<string, number>();
+        const stack: string[] = [];
+        const onStack = new Set<string>();
+        const components: string[][] = [];
+
+        const visit = (filePath: string) => {
+            indexes.set(filePath, indexes.size);
+            lowLinks.set(filePath, indexes.get(filePath)!);
+            stack.push(filePath);
+            onStack.add(filePath);
+
+            for (const dependency of [...this._dependencies.get(filePath) || []].sort()) {
+                if (!included.has(dependency)) {
+                    continue;
+                }
+                if (!indexes.has(dependency)) {
+                    visit(dependency);
+                    lowLinks.set(filePath, Math.min(lowLinks.get(filePath)!, lowLinks.get(dependency)!));
+                } else if (onStack.has(dependency)) {
+                    lowLinks.set(filePath, Math.min(lowLinks.get(filePath)!, indexes.get(dependency)!));
+                }
+            }
+
+            if (lowLinks.get(filePath) === indexes.get(filePath)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== filePath);
+                components.push(component);
+            }
+        };
+
+        [...filePaths].sort().forEach(filePath => {
+            if (!indexes.has(filePath)) {
+                visit(filePath);
+            }
+        });
+
+        return components;
+    }
+
+    private normalize(filePath: string): string {
+        return path.posix.join(FORWARD_SLASH_TOKEN, filePath);
+    }
+}
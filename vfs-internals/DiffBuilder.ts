@@ -0,0 +1,220 @@
+import { DEFAULT_DIFF_CONTEXT_LINES, DEV_NULL, FORWARD_SLASH_TOKEN, MAX_DIFF_EDIT_DISTANCE } from "../global-constants";
+import { IDiffHunk, IFileDiff } from "../types";
+
+type EditType = ' ' | '-' | '+';
+
+interface IEdit {
+    type: EditType;
+    line: string;
+    oldIndex: number;
+    newIndex: number;
+}
+
+const NO_NEW_LINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Produces line based diffs between two versions of a file using the Myers diff algorithm.
+ */
+export class DiffBuilder {
+    /**
+     * @param maxEditDistance The number of changed lines above which a file is diffed as a whole replacement,
+     * it bounds the memory used by the comparison
+     */
+    constructor(
+        private readonly contextLines = DEFAULT_DIFF_CONTEXT_LINES,
+        private readonly maxEditDistance = MAX_DIFF_EDIT_DISTANCE
+    ) { }
+
+    public createHunks(oldContent: string | null, newContent: string | null): IDiffHunk[] {
+        const edits = this.computeEdits(this.splitLines(oldContent), this.splitLines(newContent));
+        const hunks: IDiffHunk[] = [];
+        let index = 0;
+        let previousEnd = 0;
+        while (index < edits.length) {
+            if (edits[index].type === ' ') {
+                index++;
+                continue;
+            }
+
+            const start = Math.max(previousEnd, index - this.contextLines);
+            let end = index;
+            while (end < edits.length) {
+                if (edits[end].type !== ' ') {
+                    end++;
+                    continue;
+                }
+
+                let runEnd = end;
+                while (runEnd < edits.length && edits[runEnd].type === ' ') {
+                    runEnd++;
+                }
+                if (runEnd === edits.length || runEnd - end > this.contextLines * 2) {
+                    end = Math.min(end + this.contextLines, runEnd);
+                    break;
+                }
+                end = runEnd;
+            }
+
+            hunks.push(this.createHunk(edits.slice(start, end)));
+            previousEnd = end;
+            index = end;
+        }
+
+        return hunks;
+    }
+
+    public formatUnifiedDiff(diff: Omit<IFileDiff, 'unifiedDiff'>): string {
+        const oldPath = this.toDiffPath(diff.previousPath || diff.path);
+        const newPath = this.toDiffPath(diff.path);
+        const output = [`diff --git a/${oldPath} b/${newPath}`];
+        if (diff.isNew) {
+            output.push('new file');
+        } else if (diff.isDeleted) {
+            output.push('deleted file');
+        } else if (diff.previousPath) {
+            output.push(`rename from ${oldPath}`, `rename to ${newPath}`);
+        }
+
+        if (diff.isBinary) {
+            output.push(`Binary files ${diff.isNew ? DEV_NULL : `a/${oldPath}`} and ${diff.isDeleted ? DEV_NULL : `b/${newPath}`} differ`);
+        }
+        if (diff.hunks.length) {
+            output.push(
+                `--- ${diff.isNew ? DEV_NULL : `a/${oldPath}`}`,
+                `+++ ${diff.isDeleted ? DEV_NULL : `b/${newPath}`}`
+            );
+        }
+        for (const hunk of diff.hunks) {
+            output.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`, ...hunk.lines);
+        }
+
+        return output.join('\n') + '\n';
+    }
+
+    /**
+     * Returns the index of the matching new line for every old line or -1 if the line was removed
+     */
+    public matchLines(oldLines: string[], newLines: string[]): number[] {
+        const matches: number[] = new Array(oldLines.length).fill(-1);
+        for (const edit of this.computeEdits(oldLines, newLines)) {
+            if (edit.type === ' ') {
+                matches[edit.oldIndex] = edit.newIndex;
+            }
+        }
+
+        return matches;
+    }
+
+    public splitLines(content: string | null): string[] {
+        // lines keep their terminators so that a missing new line at the end of the file counts as a change
+        return content ? content.match(/[^\n]*\n|[^\n]+$/g) || [] : [];
+    }
+
+    private createHunk(edits: IEdit[]): IDiffHunk {
+        const lines: string[] = [];
+        let oldLines = 0;
+        let newLines = 0;
+        for (const edit of edits) {
+            if (edit.type !== '+') oldLines++;
+            if (edit.type !== '-') newLines++;
+            if (edit.line.endsWith('\n')) {
+                lines.push(edit.type + edit.line.substring(0, edit.line.length - 1));
+            } else {
+                lines.push(edit.type + edit.line, NO_NEW_LINE_MARKER);
+            }
+        }
+
+        // by convention an empty range starts at the line before it
+        return {
+            oldStart: oldLines ? edits[0].oldIndex + 1 : edits[0].oldIndex,
+            oldLines,
+            newStart: newLines ? edits[0].newIndex + 1 : edits[0].newIndex,
+            newLines,
+            lines
+        };
+    }
+
+    private computeEdits(oldLines: string[], newLines: string[]): IEdit[] {
+        const n = oldLines.length;
+        const m = newLines.length;
+        // after d edits only the diagonals -d..d can be reached, so the trace grows with the edit distance alone
+        const trace: Int32Array[] = [];
+        for (let d = 0; d <= Math.min(n + m, this.maxEditDistance); d++) {
+            const previous = trace[d - 1];
+            const v = new Int32Array(2 * d + 1);
+            trace.push(v);
+            for (let k = -d; k <= d; k += 2) {
+                let x = d === 0
+                    ? 0
+                    : k === -d || (k !== d && this.getX(previous, k - 1) < this.getX(previous, k + 1))
+                        ? this.getX(previous, k + 1)
+                        : this.getX(previous, k - 1) + 1;
+                let y = x - k;
+                while (x < n && y < m && oldLines[x] === newLines[y]) {
+                    x++;
+                    y++;
+                }
+                v[k + d] = x;
+                if (x >= n && y >= m) {
+                    return this.backtrack(trace, oldLines, newLines);
+                }
+            }
+        }
+
+        return this.replaceAll(oldLines, newLines);
+    }
+
+    private backtrack(trace: Int32Array[], oldLines: string[], newLines: string[]): IEdit[] {
+        const edits: IEdit[] = [];
+        let x = oldLines.length;
+        let y = newLines.length;
+        for (let d = trace.length - 1; d > 0; d--) {
+            const previous = trace[d - 1];
+            const k = x - y;
+            const prevK = k === -d || (k !== d && this.getX(previous, k - 1) < this.getX(previous, k + 1)) ? k + 1 : k - 1;
+            const prevX = this.getX(previous, prevK);
+            const prevY = prevX - prevK;
+            while (x > prevX && y > prevY) {
+                x--;
+                y--;
+                edits.push({ type: ' ', line: oldLines[x], oldIndex: x, newIndex: y });
+            }
+            if (x === prevX) {
+                edits.push({ type: '+', line: newLines[prevY], oldIndex: x, newIndex: prevY });
+            } else {
+                edits.push({ type: '-', line: oldLines[prevX], oldIndex: prevX, newIndex: y });
+            }
+            x = prevX;
+            y = prevY;
+        }
+        while (x > 0 && y > 0) {
+            x--;
+            y--;
+            edits.push({ type: ' ', line: oldLines[x], oldIndex: x, newIndex: y });
+        }
+
+        return edits.reverse();
+    }
+
+    /**
+     * Returns the furthest old line index reached on a diagonal, the diagonals of a step are centered in its array
+     */
+    private getX(v: Int32Array, k: number): number {
+        return v[k + (v.length - 1) / 2];
+    }
+
+    /**
+     * Describes the change as the removal of every old line and the addition of every new line,
+     * used when the files differ too much for the line by line comparison to be affordable
+     */
+    private replaceAll(oldLines: string[], newLines: string[]): IEdit[] {
+        return [
+            ...oldLines.map((line, index): IEdit => ({ type: '-', line, oldIndex: index, newIndex: 0 })),
+            ...newLines.map((line, index): IEdit => ({ type: '+', line, oldIndex: oldLines.length, newIndex: index }))
+        ];
+    }
+
+    private toDiffPath(filePath: string): string {
+        return filePath.startsWith(FORWARD_SLASH_TOKEN) ? filePath.substring(1) : filePath;
+    }
+}
@@ -0,0 +1,127 @@
+import path from "path";
+import ts from "typescript";
+import { FORWARD_SLASH_TOKEN } from "../global-constants";
+import { GlobMatcher } from "./GlobMatcher";
+
+interface IEditorConfigSection {
+    matcher: GlobMatcher;
+    properties: Record<string, string>;
+}
+
+interface IEditorConfig {
+    isRoot: boolean;
+    sections: IEditorConfigSection[];
+}
+
+/**
+ * Resolves the formatting settings of files from `.editorconfig` files. The files closer to a file take precedence,
+ * the search stops at the root directory or at a file with `root = true`.
+ */
+export class EditorConfigResolver {
+    private readonly _configs: Map<string, IEditorConfig | null> = new Map<string, IEditorConfig | null>();
+
+    /**
+     * @param readConfigFile Reads the `.editorconfig` file of a directory, returns null if there is none
+     */
+    constructor(private readonly readConfigFile: (dirPath: string) => string | null) { }
+
+    /**
+     * Returns the formatting settings of a file, only the settings set by the `.editorconfig` files are included
+     * @param filePath The absolute path of the file
+     */
+    public getFormatSettings(filePath: string): ts.FormatCodeSettings {
+        const properties = this.getProperties(filePath);
+        const settings: ts.FormatCodeSettings = {};
+        if (properties.indent_style) {
+            settings.convertTabsToSpaces = properties.indent_style !== 'tab';
+        }
+
+        const indentSize = parseInt(properties.indent_size === 'tab' ? properties.tab_width : properties.indent_size, 10);
+        const tabSize = parseInt(properties.tab_width, 10);
+        if (!isNaN(indentSize)) {
+            settings.indentSize = indentSize;
+        }
+        // the tab width defaults to the indent size
+        if (!isNaN(tabSize) || !isNaN(indentSize)) {
+            settings.tabSize = isNaN(tabSize) ? indentSize : tabSize;
+        }
+        if (properties.trim_trailing_whitespace) {
+            settings.trimTrailingWhitespace = properties.trim_trailing_whitespace === 'true';
+        }
+
+        return settings;
+    }
+
+    /**
+     * Returns the properties of the sections matching a file, the later sections override the earlier ones
+     */
+    private getProperties(filePath: string): Record<string, string> {
+        const configs: [string, IEditorConfig][] = [];
+        let dirPath = path.posix.dirname(filePath);
+        while (true) {
+            const config = this.getConfig(dirPath);
+            if (config) {
+                configs.unshift([dirPath, config]);
+            }
+            if (config?.isRoot || dirPath === FORWARD_SLASH_TOKEN) {
+                break;
+            }
+            dirPath = path.posix.dirname(dirPath);
+        }
+
+        const properties: Record<string, string> = {};
+        for (const [configDirPath, config] of configs) {
+            const relativePath = path.posix.relative(configDirPath, filePath);
+            config.sections
+                .filter(section => section.matcher.match(relativePath))
+                .forEach(section => Object.assign(properties, section.properties));
+        }
+
+        return properties;
+    }
+
+    private getConfig(dirPath: string): IEditorConfig | null {
+        if (!this._configs.has(dirPath)) {
+            const content = this.readConfigFile(dirPath);
+            this._configs.set(dirPath, content === null ? null : this.parse(content));
+        }
+
+        return this._configs.get(dirPath)!;
+    }
+
+    private parse(content: string): IEditorConfig {
+        const config: IEditorConfig = { isRoot: false, sections: [] };
+        let section: IEditorConfigSection | null = null;
+        for (let line of content.split(/\r?\n/)) {
+            line = line.trim();
+            if (!line || line.startsWith('#') || line.startsWith(';')) {
+                continue;
+            }
+
+            const header = line.match(/^\[(.+)\]$/);
+            if (header) {
+                // patterns with a slash are relative to the directory of the file, the rest match at any depth
+                const pattern = header[1].includes(FORWARD_SLASH_TOKEN)
+                    ? header[1].replace(/^\/+/, '')
+                    : `**/${header[1]}`;
+                section = { matcher: new GlobMatcher([pattern], true), properties: {} };
+                config.sections.push(section);
+                continue;
+            }
+
+            const separatorIndex = line.search(/[=:]/);
+            if (separatorIndex === -1) {
+                continue;
+            }
+            const key = line.substring(0, separatorIndex).trim().toLowerCase();
+            const value = line.substring(separatorIndex + 1).trim().toLowerCase();
+            if (section) {
+                section.properties[key] = value;
+            } else if (key === 'root') {
+                config.isRoot = value === 'true';
+            }
+        }
+
+        return config;
+    }
+}
@@ -0,0 +1,97 @@
+import { isUtf8 } from "buffer";
+import { FileEncoding, LineEnding } from "../types";
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe]);
+const UTF16BE_BOM = Buffer.from([0xfe, 0xff]);
+/** The number of bytes searched for a null byte to tell binary files apart, the same heuristic git uses */
+const BINARY_DETECTION_LENGTH = 8000;
+
+/**
+ * Converts the bytes of files to text and back, keeping their encoding and byte order mark
+ */
+export class FileContentCodec {
+    /**
+     * Detects the encoding of the bytes of a file. Files with a null byte and no byte order mark are binary,
+     * text that is not valid UTF-8 is read as latin1 so that its bytes are kept.
+     */
+    public detect(buffer: Buffer): { encoding: FileEncoding, hasBom: boolean } {
+        if (this.startsWith(buffer, UTF8_BOM)) {
+            return { encoding: FileEncoding.Utf8, hasBom: true };
+        }
+        if (this.startsWith(buffer, UTF16LE_BOM)) {
+            return { encoding: FileEncoding.Utf16LE, hasBom: true };
+        }
+        if (this.startsWith(buffer, UTF16BE_BOM)) {
+            return { encoding: FileEncoding.Utf16BE, hasBom: true };
+        }
+        if (buffer.subarray(0, BINARY_DETECTION_LENGTH).includes(0)) {
+            return { encoding: FileEncoding.Binary, hasBom: false };
+        }
+
+        return { encoding: isUtf8(buffer) ? FileEncoding.Utf8 : FileEncoding.Latin1, hasBom: false };
+    }
+
+    public decode(buffer: Buffer, encoding: FileEncoding, hasBom: boolean): string {
+        const bomLength = hasBom ? this.getBom(encoding).length : 0;
+        const content = buffer.subarray(bomLength);
+        switch (encoding) {
+            case FileEncoding.Utf16BE:
+                return Buffer.from(content).swap16().toString('utf16le');
+            case FileEncoding.Binary:
+                return content.toString('latin1');
+            default:
+                return content.toString(encoding);
+        }
+    }
+
+    public encode(content: string, encoding: FileEncoding, hasBom: boolean): Buffer {
+        let buffer: Buffer;
+        switch (encoding) {
+            case FileEncoding.Utf16BE:
+                buffer = Buffer.from(content, 'utf16le').swap16();
+                break;
+            case FileEncoding.Binary:
+                buffer = Buffer.from(content, 'latin1');
+                break;
+            default:
+                buffer = Buffer.from(content, encoding);
+        }
+
+        return hasBom ? Buffer.concat([this.getBom(encoding), buffer]) : buffer;
+    }
+
+    /**
+     * Returns the line ending most of the lines of the text end with or null if it has a single line
+     */
+    public detectLineEnding(content: string): LineEnding | null {
+        const lineCount = (content.match(/\n/g) || []).length;
+        if (!lineCount) {
+            return null;
+        }
+
+        const crlfCount = (content.match(/\r\n/g) || []).length;
+        return crlfCount > lineCount - crlfCount ? LineEnding.CRLF : LineEnding.LF;
+    }
+
+    public convertLineEndings(content: string, lineEnding: LineEnding): string {
+        return content.replace(/\r?\n/g, lineEnding);
+    }
+
+    private getBom(encoding: FileEncoding): Buffer {
+        switch (encoding) {
+            case FileEncoding.Utf8:
+                return UTF8_BOM;
+            case FileEncoding.Utf16LE:
+                return UTF16LE_BOM;
+            case FileEncoding.Utf16BE:
+                return UTF16BE_BOM;
+            default:
+                throw new Error(`The ${encoding} encoding has no byte order mark.`);
+        }
+    }
+
+    private startsWith(buffer: Buffer, prefix: Buffer): boolean {
+        return buffer.length >= prefix.length && buffer.subarray(0, prefix.length).equals(prefix);
+    }
+}
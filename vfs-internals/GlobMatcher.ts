@@ -0,0 +1,141 @@
+import { DOT_TOKEN, FORWARD_SLASH_TOKEN } from "../global-constants";
+
+const GLOBSTAR = '**';
+const NEGATION_TOKEN = '!';
+const REG_EXP_SPECIAL_CHARS = /[.*+?^${}()|[\]\\\/]/g;
+
+/**
+ * Matches file paths against a set of glob patterns.
+ * Supports `*`, `?`, `**`, character classes, brace expansion and `!` negation.
+ * A path matches when it matches any of the include patterns and none of the negated ones,
+ * if there are only negated patterns every path is included.
+ */
+export class GlobMatcher {
+    private readonly _includes: RegExp[] = [];
+    private readonly _excludes: RegExp[] = [];
+
+    /**
+     * @param patterns The patterns to match, the ones starting with `!` exclude paths
+     * @param dot Whether `*`, `?` and `**` match path segments starting with a dot
+     */
+    constructor(patterns: readonly string[], private readonly dot = false) {
+        for (const pattern of patterns) {
+            const negated = pattern.startsWith(NEGATION_TOKEN);
+            const expressions = this.expandBraces(negated ? pattern.substring(1) : pattern)
+                .map(expanded => this.toRegExp(expanded));
+            (negated ? this._excludes : this._includes).push(...expressions);
+        }
+
+        if (!this._includes.length && this._excludes.length) {
+            this._includes.push(this.toRegExp(GLOBSTAR));
+        }
+    }
+
+    /**
+     * @param filePath The path of the file, leading slashes are ignored
+     */
+    public match(filePath: string): boolean {
+        const normalizedPath = this.normalize(filePath);
+        return this._includes.some(expr => expr.test(normalizedPath))
+            && !this._excludes.some(expr => expr.test(normalizedPath));
+    }
+
+    private expandBraces(pattern: string): string[] {
+        let depth = 0;
+        let start = -1;
+        const commas: number[] = [];
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+            if (char === '\\') {
+                i++;
+            } else if (char === '{') {
+                if (depth++ === 0) {
+                    start = i;
+                    commas.length = 0;
+                }
+            } else if (char === ',' && depth === 1) {
+                commas.push(i);
+            } else if (char === '}' && depth > 0 && --depth === 0) {
+                if (!commas.length) {
+                    // a brace without alternatives is a literal
+                    continue;
+                }
+
+                const prefix = pattern.substring(0, start);
+                const suffix = pattern.substring(i + 1);
+                const bounds = [start, ...commas, i];
+                const expanded: string[] = [];
+                for (let j = 0; j < bounds.length - 1; j++) {
+                    const alternative = pattern.substring(bounds[j] + 1, bounds[j + 1]);
+                    expanded.push(...this.expandBraces(prefix + alternative + suffix));
+                }
+
+                return expanded;
+            }
+        }
+
+        return [pattern];
+    }
+
+    private toRegExp(pattern: string): RegExp {
+        const segments = this.normalize(pattern).split(FORWARD_SLASH_TOKEN);
+        // a segment that is matched by a wildcard, the dot entries are never part of the virtual paths
+        const anySegment = this.dot ? '[^/]+' : '(?!\\.)[^/]+';
+        let regExpString = '';
+        segments.forEach((segment, index) => {
+            const isLast = index === segments.length - 1;
+            if (segment === GLOBSTAR) {
+                regExpString += isLast ? `(?:${anySegment}/)*${anySegment}` : `(?:${anySegment}/)*`;
+                return;
+            }
+
+            regExpString += this.segmentToRegExp(segment) + (isLast ? '' : FORWARD_SLASH_TOKEN);
+        });
+
+        return new RegExp(`^${regExpString}$`);
+    }
+
+    private segmentToRegExp(segment: string): string {
+        let regExpString = this.dot || segment.startsWith(DOT_TOKEN) ? '' : '(?!\\.)';
+        for (let i = 0; i < segment.length; i++) {
+            const char = segment[i];
+            switch (char) {
+                case '*':
+                    regExpString += '[^/]*';
+                    break;
+                case '?':
+                    regExpString += '[^/]';
+                    break;
+                case '\\':
+                    regExpString += this.escape(segment[++i] ?? '\\');
+                    break;
+                case '[': {
+                    const end = segment.indexOf(']', i + 2);
+                    if (end === -1) {
+                        regExpString += this.escape(char);
+                        break;
+                    }
+
+                    let body = segment.substring(i + 1, end);
+                    const negated = body.startsWith(NEGATION_TOKEN) || body.startsWith('^');
+                    body = (negated ? body.substring(1) : body).replace(/[\\\]^]/g, '\\$&');
+                    regExpString += negated ? `[^/${body}]` : `[${body}]`;
+                    i = end;
+                    break;
+                }
+                default:
+                    regExpString += this.escape(char);
+            }
+        }
+
+        return regExpString;
+    }
+
+    private escape(text: string): string {
+        return text.replace(REG_EXP_SPECIAL_CHARS, '\\$&');
+    }
+
+    private normalize(filePath: string): string {
+        return filePath.replace(/^(\.?\/)+/, '');
+    }
+}
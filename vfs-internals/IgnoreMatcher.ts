@@ -0,0 +1,102 @@
+import path from "path";
+import { FORWARD_SLASH_TOKEN } from "../global-constants";
+import { GlobMatcher } from "./GlobMatcher";
+
+interface IIgnoreRule {
+    matcher: GlobMatcher;
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+/**
+ * Decides which files and directories are ignored based on patterns in `.gitignore` syntax.
+ * The rules of a directory apply to everything below it and the last matching rule wins.
+ */
+export class IgnoreMatcher {
+    private readonly _rules: Map<string, IIgnoreRule[]> = new Map<string, IIgnoreRule[]>();
+    private readonly _rootRules: IIgnoreRule[];
+
+    /**
+     * @param patterns Patterns that apply to the whole tree, they take precedence over the ignore files
+     * @param readIgnoreFile Reads the ignore file of a directory, e.g. its `.gitignore`
+     */
+    constructor(patterns: readonly string[], private readonly readIgnoreFile?: (dirPath: string) => string | null) {
+        this._rootRules = this.parse(patterns);
+    }
+
+    /**
+     * @param entryPath The absolute path of the file or directory
+     * @param isDirectory Whether the path is a directory, rules ending with a slash only match directories
+     */
+    public isIgnored(entryPath: string, isDirectory = false): boolean {
+        const segments = entryPath.split(FORWARD_SLASH_TOKEN).filter(segment => segment.length);
+        // nothing below an ignored directory can be included again
+        for (let i = 1; i <= segments.length; i++) {
+            const currentPath = FORWARD_SLASH_TOKEN + segments.slice(0, i).join(FORWARD_SLASH_TOKEN);
+            if (this.matches(currentPath, i < segments.length || isDirectory)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    private matches(entryPath: string, isDirectory: boolean): boolean {
+        let ignored = false;
+        let dirPath = path.posix.dirname(entryPath);
+        const dirPaths = [dirPath];
+        while (dirPath !== FORWARD_SLASH_TOKEN) {
+            dirPath = path.posix.dirname(dirPath);
+            dirPaths.unshift(dirPath);
+        }
+
+        for (const currentDirPath of dirPaths) {
+            const relativePath = path.posix.relative(currentDirPath, entryPath);
+            for (const rule of this.getRules(currentDirPath)) {
+                if ((!rule.directoryOnly || isDirectory) && rule.matcher.match(relativePath)) {
+                    ignored = !rule.negated;
+                }
+            }
+        }
+
+        return ignored;
+    }
+
+    private getRules(dirPath: string): IIgnoreRule[] {
+        let rules = this._rules.get(dirPath);
+        if (!rules) {
+            const content = this.readIgnoreFile?.(dirPath);
+            rules = content ? this.parse(content.split(/\r?\n/)) : [];
+            if (dirPath === FORWARD_SLASH_TOKEN) {
+                rules = [...rules, ...this._rootRules];
+            }
+            this._rules.set(dirPath, rules);
+        }
+
+        return rules;
+    }
+
+    private parse(lines: readonly string[]): IIgnoreRule[] {
+        const rules: IIgnoreRule[] = [];
+        for (let line of lines) {
+            line = line.replace(/\s+$/, '');
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+
+            const negated = line.startsWith('!');
+            let pattern = negated ? line.substring(1) : line;
+            const directoryOnly = pattern.endsWith(FORWARD_SLASH_TOKEN);
+            pattern = pattern.replace(/\/+$/, '');
+            // patterns with a slash are relative to the directory of the rule, the rest match at any depth
+            pattern = pattern.includes(FORWARD_SLASH_TOKEN)
+                ? pattern.replace(/^\/+/, '')
+                : `**/${pattern}`;
+            if (pattern) {
+                rules.push({ matcher: new GlobMatcher([pattern], true), negated, directoryOnly });
+            }
+        }
+
+        return rules;
+    }
+}
@@ -0,0 +1,343 @@
+import ts from "typescript";
+import { IImportOptions, IImportRemovalOptions, IImportSpecifier } from "../types";
+
+const DEFAULT_QUOTE = '"';
+
+/**
+ * Edits the import declarations of a source file in place. Only the text of the affected declarations
+ * is changed so the formatting of the rest of the file is kept.
+ */
+export class ImportEditor {
+    private _sourceFile: ts.SourceFile;
+
+    constructor(sourceFile: ts.SourceFile) {
+        this._sourceFile = sourceFile;
+    }
+
+    public get sourceFile(): ts.SourceFile {
+        return this._sourceFile;
+    }
+
+    public addImport(options: IImportOptions): void {
+        const { moduleSpecifier, typeOnly = false } = options;
+        if (!options.defaultImport && !options.namespaceImport && !options.namedImports?.length) {
+            this.addSideEffectImport(moduleSpecifier);
+            return;
+        }
+
+        if (options.namespaceImport) {
+            this.addNamespaceImport(moduleSpecifier, options.namespaceImport, typeOnly);
+        }
+        if (options.defaultImport) {
+            this.addDefaultImport(moduleSpecifier, options.defaultImport, typeOnly);
+        }
+        for (const specifier of options.namedImports || []) {
+            this.addNamedImport(
+                moduleSpecifier,
+                typeof specifier === 'string' ? { name: specifier } : specifier,
+                typeOnly
+            );
+        }
+    }
+
+    public addSideEffectImport(moduleSpecifier: string): void {
+        if (!this.getImports(moduleSpecifier).some(declaration => !declaration.importClause)) {
+            this.insertDeclaration(null, moduleSpecifier, false);
+        }
+    }
+
+    public removeImport(moduleSpecifier: string, options?: IImportRemovalOptions): void {
+        if (!options) {
+            let declaration: ts.ImportDeclaration | undefined;
+            while ((declaration = this.getImports(moduleSpecifier)[0])) {
+                this.removeStatement(declaration);
+            }
+            return;
+        }
+
+        for (const name of options.namedImports || []) {
+            let element: ts.ImportSpecifier | undefined;
+            while ((element = this.findNamedImport(moduleSpecifier, name))) {
+                this.removeNamedImport(element);
+            }
+        }
+        if (options.defaultImport) {
+            let declaration: ts.ImportDeclaration | undefined;
+            while ((declaration = this.getImports(moduleSpecifier).find(d => d.importClause?.name))) {
+                this.removeDefaultImport(declaration);
+            }
+        }
+        if (options.namespaceImport) {
+            let declaration: ts.ImportDeclaration | undefined;
+            while ((declaration = this.getImports(moduleSpecifier).find(d => this.getNamespaceImport(d)))) {
+                this.removeNamespaceImport(declaration);
+            }
+        }
+    }
+
+    /**
+     * Changes the imported name of a named import, the local name stays the same so that
+     * the usages of the import in the file remain valid
+     */
+    public renameImport(moduleSpecifier: string, name: string, newName: string): void {
+        // imports are renamed back to front so that the positions of the rest stay valid
+        for (const declaration of [...this.getImports(moduleSpecifier)].reverse()) {
+            const namedImports = this.getNamedImports(declaration);
+            for (const element of [...namedImports?.elements || []].reverse()) {
+                if (element.propertyName?.text === name) {
+                    this.replace(element.propertyName.getStart(), element.propertyName.end, newName);
+                } else if (!element.propertyName && element.name.text === name) {
+                    this.replace(element.name.getStart(), element.name.end, `${newName} as ${name}`);
+                }
+            }
+        }
+    }
+
+    public renameModuleSpecifier(moduleSpecifier: string, newModuleSpecifier: string): void {
+        for (const declaration of [...this.getImports(moduleSpecifier)].reverse()) {
+            // keeps the quotes of the original specifier
+            this.replace(declaration.moduleSpecifier.getStart() + 1, declaration.moduleSpecifier.end - 1, newModuleSpecifier);
+        }
+    }
+
+    /**
+     * Merges the declarations that import from the same module into a single declaration
+     * @param moduleSpecifier Limits the merge to the imports of a single module
+     */
+    public mergeImports(moduleSpecifier?: string): void {
+        const moduleSpecifiers = new Set(this.getImports(moduleSpecifier)
+            .map(declaration => (declaration.moduleSpecifier as ts.StringLiteral).text));
+        for (const specifier of moduleSpecifiers) {
+            this.removeDuplicateSideEffectImports(specifier);
+            for (const typeOnly of [false, true]) {
+                let mergeable: ts.ImportDeclaration[];
+                while ((mergeable = this.getMergeableImports(specifier, typeOnly)).length > 1) {
+                    const declaration = mergeable[mergeable.length - 1];
+                    const options = this.toImportOptions(declaration);
+                    this.removeStatement(declaration);
+                    this.addImport(options);
+                }
+            }
+        }
+    }
+
+    private addNamespaceImport(moduleSpecifier: string, name: string, typeOnly: boolean): void {
+        const candidates = this.getImportsWithClause(moduleSpecifier, typeOnly);
+        if (candidates.some(declaration => this.getNamespaceImport(declaration)?.name.text === name)) {
+            return;
+        }
+
+        const defaultOnly = typeOnly
+            ? undefined
+            : candidates.find(declaration => declaration.importClause!.name && !declaration.importClause!.namedBindings);
+        if (defaultOnly) {
+            this.insert(defaultOnly.importClause!.name!.end, `, * as ${name}`);
+        } else {
+            this.insertDeclaration(`* as ${name}`, moduleSpecifier, typeOnly);
+        }
+    }
+
+    private addDefaultImport(moduleSpecifier: string, name: string, typeOnly: boolean): void {
+        const candidates = this.getImportsWithClause(moduleSpecifier, typeOnly);
+        if (candidates.some(declaration => declaration.importClause!.name?.text === name)) {
+            return;
+        }
+
+        // a type-only import can not have both a default import and named bindings
+        const withoutDefault = typeOnly
+            ? undefined
+            : candidates.find(declaration => !declaration.importClause!.name);
+        if (withoutDefault) {
+            this.insert(withoutDefault.importClause!.namedBindings!.getStart(), `${name}, `);
+        } else {
+            this.insertDeclaration(name, moduleSpecifier, typeOnly);
+        }
+    }
+
+    private addNamedImport(moduleSpecifier: string, specifier: IImportSpecifier, typeOnly: boolean): void {
+        const candidates = this.getImportsWithClause(moduleSpecifier, typeOnly);
+        const localName = specifier.alias || specifier.name;
+        const exists = candidates.some(declaration => this.getNamedImports(declaration)?.elements
+            .some(element => element.name.text === localName
+                && (element.propertyName || element.name).text === specifier.name));
+        if (exists) {
+            return;
+        }
+
+        const specifierText = specifier.alias && specifier.alias !== specifier.name
+            ? `${specifier.name} as ${specifier.alias}`
+            : specifier.name;
+        const withNamedImports = candidates.find(declaration => this.getNamedImports(declaration));
+        const defaultOnly = typeOnly
+            ? undefined
+            : candidates.find(declaration => declaration.importClause!.name && !declaration.importClause!.namedBindings);
+        if (withNamedImports) {
+            this.appendNamedImport(this.getNamedImports(withNamedImports)!, specifierText);
+        } else if (defaultOnly) {
+            this.insert(defaultOnly.importClause!.name!.end, `, { ${specifierText} }`);
+        } else {
+            this.insertDeclaration(`{ ${specifierText} }`, moduleSpecifier, typeOnly);
+        }
+    }
+
+    private appendNamedImport(namedImports: ts.NamedImports, specifierText: string): void {
+        const elements = namedImports.elements;
+        if (!elements.length) {
+            this.replace(namedImports.getStart(), namedImports.end, `{ ${specifierText} }`);
+            return;
+        }
+
+        const lastElement = elements[elements.length - 1];
+        const text = this._sourceFile.text;
+        const isMultiLine = text.substring(namedImports.getStart(), lastElement.getStart()).includes('\n');
+        const lineStart = text.lastIndexOf('\n', lastElement.getStart()) + 1;
+        const indentation = text.substring(lineStart, lastElement.getStart()).match(/^\s*/)![0];
+        if (elements.hasTrailingComma) {
+            const commaPosition = text.indexOf(',', lastElement.end);
+            this.insert(commaPosition + 1, isMultiLine ? `\n${indentation}${specifierText},` : ` ${specifierText},`);
+        } else {
+            this.insert(lastElement.end, isMultiLine ? `,\n${indentation}${specifierText}` : `, ${specifierText}`);
+        }
+    }
+
+    private removeNamedImport(element: ts.ImportSpecifier): void {
+        const namedImports = element.parent;
+        const declaration = namedImports.parent.parent;
+        const elements = namedImports.elements;
+        if (elements.length === 1) {
+            if (declaration.importClause!.name) {
+                this.replace(declaration.importClause!.name.end, namedImports.end, '');
+            } else {
+                this.removeStatement(declaration);
+            }
+            return;
+        }
+
+        const index = elements.indexOf(element);
+        if (index < elements.length - 1) {
+            this.replace(element.getStart(), elements[index + 1].getStart(), '');
+        } else {
+            this.replace(elements[index - 1].end, element.end, '');
+        }
+    }
+
+    private removeDefaultImport(declaration: ts.ImportDeclaration): void {
+        const importClause = declaration.importClause!;
+        if (!importClause.namedBindings) {
+            this.removeStatement(declaration);
+        } else {
+            this.replace(importClause.name!.getStart(), importClause.namedBindings.getStart(), '');
+        }
+    }
+
+    private removeNamespaceImport(declaration: ts.ImportDeclaration): void {
+        const importClause = declaration.importClause!;
+        if (!importClause.name) {
+            this.removeStatement(declaration);
+        } else {
+            this.replace(importClause.name.end, importClause.namedBindings!.end, '');
+        }
+    }
+
+    private removeDuplicateSideEffectImports(moduleSpecifier: string): void {
+        let sideEffectImports: ts.ImportDeclaration[];
+        while ((sideEffectImports = this.getImports(moduleSpecifier).filter(d => !d.importClause)).length > 1) {
+            this.removeStatement(sideEffectImports[sideEffectImports.length - 1]);
+        }
+    }
+
+    private getMergeableImports(moduleSpecifier: string, typeOnly: boolean): ts.ImportDeclaration[] {
+        const candidates = this.getImportsWithClause(moduleSpecifier, typeOnly)
+            .filter(declaration => !this.getNamespaceImport(declaration));
+        const defaultImports = candidates.filter(declaration => declaration.importClause!.name);
+        // declarations with a default import can only be merged into ones without a default import
+        return candidates.filter(declaration => !declaration.importClause!.name
+            || (!typeOnly && defaultImports.length === 1));
+    }
+
+    private toImportOptions(declaration: ts.ImportDeclaration): IImportOptions {
+        const importClause = declaration.importClause!;
+        return {
+            moduleSpecifier: (declaration.moduleSpecifier as ts.StringLiteral).text,
+            defaultImport: importClause.name?.text,
+            namedImports: this.getNamedImports(declaration)?.elements.map(element => element.propertyName
+                ? { name: element.propertyName.text, alias: element.name.text }
+                : element.name.text),
+            typeOnly: importClause.isTypeOnly
+        };
+    }
+
+    private findNamedImport(moduleSpecifier: string, name: string): ts.ImportSpecifier | undefined {
+        for (const declaration of this.getImports(moduleSpecifier)) {
+            const element = this.getNamedImports(declaration)?.elements
+                .find(e => e.name.text === name || e.propertyName?.text === name);
+            if (element) {
+                return element;
+            }
+        }
+
+        return undefined;
+    }
+
+    private getImports(moduleSpecifier?: string): ts.ImportDeclaration[] {
+        return this._sourceFile.statements
+            .filter(ts.isImportDeclaration)
+            .filter(declaration => ts.isStringLiteral(declaration.moduleSpecifier)
+                && (moduleSpecifier === undefined || declaration.moduleSpecifier.text === moduleSpecifier));
+    }
+
+    private getImportsWithClause(moduleSpecifier: string, typeOnly: boolean): ts.ImportDeclaration[] {
+        return this.getImports(moduleSpecifier)
+            .filter(declaration => declaration.importClause && declaration.importClause.isTypeOnly === typeOnly);
+    }
+
+    private getNamedImports(declaration: ts.ImportDeclaration): ts.NamedImports | undefined {
+        const namedBindings = declaration.importClause?.namedBindings;
+        return namedBindings && ts.isNamedImports(namedBindings) ? namedBindings : undefined;
+    }
+
+    private getNamespaceImport(declaration: ts.ImportDeclaration): ts.NamespaceImport | undefined {
+        const namedBindings = declaration.importClause?.namedBindings;
+        return namedBindings && ts.isNamespaceImport(namedBindings) ? namedBindings : undefined;
+    }
+
+    private insertDeclaration(importClause: string | null, moduleSpecifier: string, typeOnly: boolean): void {
+        const imports = this.getImports();
+        const firstImport = imports[0];
+        const quote = firstImport ? firstImport.moduleSpecifier.getText()[0] : DEFAULT_QUOTE;
+        const semicolon = !firstImport || firstImport.getText().endsWith(';') ? ';' : '';
+        const declaration = importClause === null
+            ? `import ${quote}${moduleSpecifier}${quote}${semicolon}`
+            : `import ${typeOnly ? 'type ' : ''}${importClause} from ${quote}${moduleSpecifier}${quote}${semicolon}`;
+
+        if (imports.length) {
+            this.insert(imports[imports.length - 1].end, `\n${declaration}`);
+        } else if (this._sourceFile.statements.length) {
+            this.insert(this._sourceFile.statements[0].getStart(), `${declaration}\n\n`);
+        } else {
+            this.insert(0, `${declaration}\n`);
+        }
+    }
+
+    private removeStatement(statement: ts.Statement): void {
+        const text = this._sourceFile.text;
+        let end = statement.end;
+        if (text[end] === '\r') end++;
+        if (text[end] === '\n') end++;
+        this.replace(statement.getStart(), end, '');
+    }
+
+    private insert(position: number, newText: string): void {
+        this.replace(position, position, newText);
+    }
+
+    private replace(start: number, end: number, newText: string): void {
+        const text = this._sourceFile.text;
+        this._sourceFile = ts.createSourceFile(
+            this._sourceFile.fileName,
+            text.substring(0, start) + newText + text.substring(end),
+            this._sourceFile.languageVersion,
+            true
+        );
+    }
+}
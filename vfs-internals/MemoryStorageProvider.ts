@@ -0,0 +1,187 @@
+import path from "path";
+import { FORWARD_SLASH_TOKEN, MAX_SYMLINK_DEPTH } from "../global-constants";
+import { IStorageEntry, IStorageProvider } from "../types";
+
+/**
+ * Keeps the files of the virtual file system in memory, nothing is written to disk.
+ * Symbolic links are followed like in the physical file system.
+ */
+export class MemoryStorageProvider implements IStorageProvider {
+    public readonly isReadOnly = false;
+
+    protected readonly files: Map<string, Buffer> = new Map<string, Buffer>();
+    protected readonly directories: Set<string> = new Set<string>([FORWARD_SLASH_TOKEN]);
+    /** The targets of the symbolic links keyed by the path of the link */
+    protected readonly links: Map<string, string> = new Map<string, string>();
+    private readonly _modifiedTimes: Map<string, number> = new Map<string, number>();
+    private _lastModifiedTime = 0;
+
+    /**
+     * @param files The initial content of the storage keyed by file path
+     */
+    constructor(files: Record<string, string | Buffer> = {}) {
+        Object.entries(files).forEach(([filePath, content]) => this.writeFile(filePath, content));
+    }
+
+    public readDirectory(dirPath: string): IStorageEntry[] {
+        const resolvedPath = this.resolve(dirPath);
+        if (resolvedPath === null || !this.directories.has(resolvedPath)) {
+            throw new Error(`Directory ${dirPath} does not exist.`);
+        }
+
+        const entries: IStorageEntry[] = [];
+        this.directories.forEach(childPath => {
+            if (childPath !== resolvedPath && path.posix.dirname(childPath) === resolvedPath) {
+                entries.push({ name: path.posix.basename(childPath), isDirectory: true });
+            }
+        });
+        this.files.forEach((_, childPath) => {
+            if (path.posix.dirname(childPath) === resolvedPath) {
+                entries.push({ name: path.posix.basename(childPath), isDirectory: false });
+            }
+        });
+        this.links.forEach((_, linkPath) => {
+            if (path.posix.dirname(linkPath) === resolvedPath) {
+                entries.push({ name: path.posix.basename(linkPath), isDirectory: this.directoryExists(linkPath), isSymbolicLink: true });
+            }
+        });
+
+        return entries;
+    }
+
+    public fileExists(filePath: string): boolean {
+        return this.files.has(this.resolve(filePath)!);
+    }
+
+    public readFile(filePath: string): Buffer | null {
+        return this.files.get(this.resolve(filePath)!) ?? null;
+    }
+
+    public getFileSize(filePath: string): number | null {
+        const content = this.files.get(this.resolve(filePath)!);
+        return content === undefined ? null : content.length;
+    }
+
+    public getModifiedTime(filePath: string): number | null {
+        return this._modifiedTimes.get(this.resolve(filePath)!) ?? null;
+    }
+
+    public writeFile(filePath: string, content: string | Buffer): void {
+        const resolvedPath = this.resolve(filePath);
+        if (resolvedPath === null) {
+            throw new Error(`Too many symbolic links in ${filePath}.`);
+        }
+
+        this.createDirectory(path.posix.dirname(resolvedPath));
+        this.files.set(resolvedPath, Buffer.from(content));
+        // writes within the same millisecond still get different times
+        this._lastModifiedTime = Math.max(Date.now(), this._lastModifiedTime + 1);
+        this._modifiedTimes.set(resolvedPath, this._lastModifiedTime);
+    }
+
+    /**
+     * Removes a file or a symbolic link, the target of the link is kept
+     */
+    public deleteFile(filePath: string): void {
+        const linkPath = this.resolveParent(filePath);
+        if (linkPath !== null && this.links.delete(linkPath)) {
+            return;
+        }
+
+        const resolvedPath = this.resolve(filePath);
+        if (resolvedPath === null || !this.files.delete(resolvedPath)) {
+            throw new Error(`File ${filePath} does not exist.`);
+        }
+        this._modifiedTimes.delete(resolvedPath);
+    }
+
+    public directoryExists(dirPath: string): boolean {
+        return this.directories.has(this.resolve(dirPath)!);
+    }
+
+    public createDirectory(dirPath: string): void {
+        let currentPath = this.resolve(dirPath);
+        if (currentPath === null) {
+            throw new Error(`Too many symbolic links in ${dirPath}.`);
+        }
+
+        while (!this.directories.has(currentPath)) {
+            this.directories.add(currentPath);
+            currentPath = path.posix.dirname(currentPath);
+        }
+    }
+
+    public deleteDirectory(dirPath: string): void {
+        if (this.readDirectory(dirPath).length) {
+            throw new Error(`Directory ${dirPath} is not empty.`);
+        }
+
+        this.directories.delete(this.resolve(dirPath)!);
+    }
+
+    public readLink(linkPath: string): string | null {
+        return this.links.get(this.resolveParent(linkPath)!) ?? null;
+    }
+
+    public createSymlink(linkPath: string, target: string): void {
+        const resolvedPath = this.resolveParent(linkPath);
+        if (resolvedPath === null) {
+            throw new Error(`Too many symbolic links in ${linkPath}.`);
+        }
+
+        this.createDirectory(path.posix.dirname(resolvedPath));
+        this.files.delete(resolvedPath);
+        this.links.set(resolvedPath, target);
+    }
+
+    public realPath(entryPath: string): string | null {
+        const resolvedPath = this.resolve(entryPath);
+        return resolvedPath !== null && (this.files.has(resolvedPath) || this.directories.has(resolvedPath))
+            ? resolvedPath
+            : null;
+    }
+
+    public save(): void {
+        // there is nothing to persist
+    }
+
+    protected normalize(filePath: string): string {
+        return path.posix.join(FORWARD_SLASH_TOKEN, filePath).replace(/(.)\/+$/, '$1');
+    }
+
+    /**
+     * Follows the symbolic links in a path
+     * @returns The path without links or null if there are too many of them, e.g. because they form a loop
+     */
+    private resolve(entryPath: string): string | null {
+        const segments = this.normalize(entryPath).split(FORWARD_SLASH_TOKEN).filter(segment => segment.length);
+        let resolvedPath = FORWARD_SLASH_TOKEN;
+        let depth = 0;
+        while (segments.length) {
+            const currentPath = path.posix.join(resolvedPath, segments.shift()!);
+            const target = this.links.get(currentPath);
+            if (target === undefined) {
+                resolvedPath = currentPath;
+                continue;
+            }
+            if (++depth > MAX_SYMLINK_DEPTH) {
+                return null;
+            }
+
+            // relative targets start at the directory of the link
+            segments.unshift(...path.posix.resolve(resolvedPath, target).split(FORWARD_SLASH_TOKEN).filter(segment => segment.length));
+            resolvedPath = FORWARD_SLASH_TOKEN;
+        }
+
+        return resolvedPath;
+    }
+
+    /**
+     * Follows the symbolic links in the directories of a path but not a link the path itself points to
+     */
+    private resolveParent(entryPath: string): string | null {
+        const normalizedPath = this.normalize(entryPath);
+        const parentPath = this.resolve(path.posix.dirname(normalizedPath));
+        return parentPath === null ? null : path.posix.join(parentPath, path.posix.basename(normalizedPath));
+    }
+}
@@ -0,0 +1,124 @@
+import * as fs from "fs";
+import path from "path";
+import { FORWARD_SLASH_TOKEN } from "../global-constants";
+import { IStorageEntry, IStorageProvider } from "../types";
+
+/**
+ * Stores the files of the virtual file system in a directory of the physical file system
+ */
+export class PhysicalStorageProvider implements IStorageProvider {
+    constructor(public readonly root: string) { }
+
+    public get isReadOnly(): boolean {
+        return this.root === FORWARD_SLASH_TOKEN;
+    }
+
+    public readDirectory(dirPath: string): IStorageEntry[] {
+        const physicalPath = this.resolve(dirPath);
+        return fs.readdirSync(physicalPath, { withFileTypes: true })
+            .filter(entry => entry.isDirectory() || entry.isFile() || entry.isSymbolicLink())
+            .map(entry => entry.isSymbolicLink()
+                ? { name: entry.name, isDirectory: this.isDirectory(path.posix.join(physicalPath, entry.name)), isSymbolicLink: true }
+                : { name: entry.name, isDirectory: entry.isDirectory() });
+    }
+
+    public fileExists(filePath: string): boolean {
+        const physicalPath = this.resolve(filePath);
+        return fs.existsSync(physicalPath) && fs.statSync(physicalPath).isFile();
+    }
+
+    public readFile(filePath: string): Buffer | null {
+        if (!this.fileExists(filePath)) {
+            return null;
+        }
+
+        return fs.readFileSync(this.resolve(filePath));
+    }
+
+    public getFileSize(filePath: string): number | null {
+        if (!this.fileExists(filePath)) {
+            return null;
+        }
+
+        return fs.statSync(this.resolve(filePath)).size;
+    }
+
+    public getModifiedTime(filePath: string): number | null {
+        if (!this.fileExists(filePath)) {
+            return null;
+        }
+
+        return fs.statSync(this.resolve(filePath)).mtimeMs;
+    }
+
+    public writeFile(filePath: string, content: string | Buffer): void {
+        const physicalPath = this.resolve(filePath);
+        const dir = path.posix.dirname(physicalPath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.writeFileSync(physicalPath, content);
+    }
+
+    /**
+     * Removes a file or a symbolic link, the target of the link is kept
+     */
+    public deleteFile(filePath: string): void {
+        fs.rmSync(this.resolve(filePath));
+    }
+
+    public directoryExists(dirPath: string): boolean {
+        return this.isDirectory(this.resolve(dirPath));
+    }
+
+    public createDirectory(dirPath: string): void {
+        fs.mkdirSync(this.resolve(dirPath), { recursive: true });
+    }
+
+    public deleteDirectory(dirPath: string): void {
+        fs.rmdirSync(this.resolve(dirPath));
+    }
+
+    public readLink(linkPath: string): string | null {
+        const physicalPath = this.resolve(linkPath);
+        return this.isLink(physicalPath) ? fs.readlinkSync(physicalPath) : null;
+    }
+
+    public createSymlink(linkPath: string, target: string): void {
+        const physicalPath = this.resolve(linkPath);
+        fs.mkdirSync(path.posix.dirname(physicalPath), { recursive: true });
+        if (this.isLink(physicalPath) || fs.existsSync(physicalPath)) {
+            fs.rmSync(physicalPath);
+        }
+        fs.symlinkSync(target, physicalPath);
+    }
+
+    public realPath(entryPath: string): string | null {
+        try {
+            return fs.realpathSync(this.resolve(entryPath));
+        } catch (err) {
+            // the path does not exist or its links form a loop
+            return null;
+        }
+    }
+
+    public save(): void {
+        // the changes are written to disk as they happen
+    }
+
+    private isDirectory(physicalPath: string): boolean {
+        return fs.existsSync(physicalPath) && fs.statSync(physicalPath).isDirectory();
+    }
+
+    private isLink(physicalPath: string): boolean {
+        try {
+            return fs.lstatSync(physicalPath).isSymbolicLink();
+        } catch (err) {
+            return false;
+        }
+    }
+
+    private resolve(filePath: string): string {
+        return path.posix.normalize(path.posix.join(this.root, filePath));
+    }
+}
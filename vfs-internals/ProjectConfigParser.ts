@@ -0,0 +1,69 @@
+import path from "path";
+import ts from "typescript";
+import { GlobMatcher } from "./GlobMatcher";
+
+/**
+ * Parses `tsconfig.json` files the way `tsc` does, with the configs they extend,
+ * their `files`, `include` and `exclude` and their project references
+ */
+export class ProjectConfigParser {
+    /**
+     * @param readFile Reads a config file, returns null if it does not exist
+     * @param getFilePaths Returns the absolute paths of the files the `include` and `exclude` patterns are matched against
+     */
+    constructor(
+        private readonly readFile: (filePath: string) => string | null,
+        private readonly getFilePaths: () => string[]
+    ) { }
+
+    /**
+     * @param configPath The absolute path of the config file
+     * @param configFiles Collects the paths of the config files that were read, the config itself and the ones it extends
+     * @returns The compiler options, root files and references of the project or null if the config file does not exist
+     */
+    public parse(configPath: string, configFiles: string[] = []): ts.ParsedCommandLine | null {
+        const host: ts.ParseConfigHost = {
+            useCaseSensitiveFileNames: true,
+            fileExists: (filePath) => this.readFile(filePath) !== null,
+            readFile: (filePath) => {
+                configFiles.push(filePath);
+                return this.readFile(filePath) ?? undefined;
+            },
+            readDirectory: (rootDir, extensions, excludes, includes) => this.readDirectory(rootDir, extensions, excludes, includes)
+        };
+
+        const content = host.readFile(configPath);
+        if (content === undefined) {
+            return null;
+        }
+
+        const configFile = ts.parseJsonText(configPath, content);
+        return ts.parseJsonSourceFileConfigFileContent(configFile, host, path.posix.dirname(configPath), undefined, configPath);
+    }
+
+    private readDirectory(
+        rootDir: string,
+        extensions: readonly string[],
+        excludes: readonly string[] | undefined,
+        includes: readonly string[]
+    ): string[] {
+        const includeMatcher = new GlobMatcher(includes.map(spec => this.toPattern(rootDir, spec)));
+        // an excluded directory excludes everything below it
+        const excludeMatcher = new GlobMatcher((excludes || []).map(spec => path.posix.resolve(rootDir, spec))
+            .reduce((patterns: string[], pattern) => [...patterns, pattern, `${pattern}/**`], []));
+
+        return this.getFilePaths().filter(filePath =>
+            extensions.some(extension => filePath.endsWith(extension))
+            && includeMatcher.match(filePath)
+            && !excludeMatcher.match(filePath))
+            .sort();
+    }
+
+    /**
+     * Converts an `include` spec to a glob pattern, specs whose last segment has no wildcard or extension are directories
+     */
+    private toPattern(rootDir: string, spec: string): string {
+        const pattern = path.posix.resolve(rootDir, spec);
+        return /[.*?]/.test(path.posix.basename(pattern)) ? pattern : `${pattern}/**/*`;
+    }
+}
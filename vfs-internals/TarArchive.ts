@@ -0,0 +1,168 @@
+import { FORWARD_SLASH_TOKEN } from "../global-constants";
+import { IArchiveEntry } from "../types";
+
+const BLOCK_SIZE = 512;
+const NAME_SIZE = 100;
+const USTAR_MAGIC = 'ustar';
+
+enum EntryType {
+    File = '0',
+    LegacyFile = '\0',
+    ContiguousFile = '7',
+    SymbolicLink = '2',
+    Directory = '5',
+    GnuLongName = 'L',
+    PaxHeader = 'x'
+}
+
+/**
+ * Reads and writes ustar archives. Long paths are read from GNU and pax headers and written as pax headers.
+ * Symbolic links are kept, hard links and special files are skipped.
+ */
+export class TarArchive {
+    public read(buffer: Buffer): IArchiveEntry[] {
+        const entries: IArchiveEntry[] = [];
+        let longName: string | undefined;
+        let longLinkName: string | undefined;
+        let offset = 0;
+        while (offset + BLOCK_SIZE <= buffer.length) {
+            const header = buffer.subarray(offset, offset + BLOCK_SIZE);
+            if (header.every(byte => byte === 0)) {
+                break;
+            }
+
+            const size = parseInt(this.readString(header, 124, 12).trim() || '0', 8);
+            const type = String.fromCharCode(header[156]);
+            const data = buffer.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+            offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+            let name = this.readString(header, 0, NAME_SIZE);
+            const prefix = this.readString(header, 345, 155);
+            if (prefix && this.readString(header, 257, 6) === USTAR_MAGIC) {
+                name = `${prefix}${FORWARD_SLASH_TOKEN}${name}`;
+            }
+            if (longName !== undefined) {
+                name = longName;
+                longName = undefined;
+            }
+            let linkName = this.readString(header, 157, NAME_SIZE);
+            if (longLinkName !== undefined && type !== EntryType.PaxHeader) {
+                linkName = longLinkName;
+                longLinkName = undefined;
+            }
+
+            switch (type) {
+                case EntryType.GnuLongName:
+                    longName = data.toString('utf8').replace(/\0[\s\S]*$/, '');
+                    break;
+                case EntryType.PaxHeader: {
+                    const records = this.readPaxRecords(data);
+                    longName = records.get('path');
+                    longLinkName = records.get('linkpath');
+                    break;
+                }
+                case EntryType.Directory:
+                    entries.push({ path: this.trimSlashes(name), content: null });
+                    break;
+                case EntryType.File:
+                case EntryType.LegacyFile:
+                case EntryType.ContiguousFile:
+                    entries.push({ path: this.trimSlashes(name), content: Buffer.from(data) });
+                    break;
+                case EntryType.SymbolicLink:
+                    entries.push({ path: this.trimSlashes(name), content: null, linkTarget: linkName });
+                    break;
+                default:
+                    // hard links and special files have no counterpart in the virtual file system
+                    break;
+            }
+        }
+
+        return entries;
+    }
+
+    public write(entries: IArchiveEntry[]): Buffer {
+        const blocks: Buffer[] = [];
+        const mtime = Math.floor(Date.now() / 1000);
+        for (const entry of entries) {
+            const isLink = entry.linkTarget !== undefined;
+            const isDirectory = entry.content === null && !isLink;
+            const name = entry.path + (isDirectory ? FORWARD_SLASH_TOKEN : '');
+            const linkName = entry.linkTarget || '';
+            const paxRecords = [
+                Buffer.byteLength(name) > NAME_SIZE ? this.createPaxRecord('path', name) : '',
+                Buffer.byteLength(linkName) > NAME_SIZE ? this.createPaxRecord('linkpath', linkName) : ''
+            ].join('');
+            if (paxRecords) {
+                const paxData = Buffer.from(paxRecords, 'utf8');
+                blocks.push(this.createHeader('PaxHeader', paxData.length, EntryType.PaxHeader, mtime), this.pad(paxData));
+            }
+
+            const content = entry.content || Buffer.alloc(0);
+            const type = isLink ? EntryType.SymbolicLink : isDirectory ? EntryType.Directory : EntryType.File;
+            blocks.push(this.createHeader(name, content.length, type, mtime, linkName), this.pad(content));
+        }
+        blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+
+        return Buffer.concat(blocks);
+    }
+
+    private createHeader(name: string, size: number, type: EntryType, mtime: number, linkName = ''): Buffer {
+        const header = Buffer.alloc(BLOCK_SIZE);
+        // names that do not fit are truncated, the full name is stored in the preceding pax header
+        header.write(name, 0, NAME_SIZE, 'utf8');
+        header.write(this.toOctal(type === EntryType.File ? 0o644 : 0o755, 8), 100, 'ascii');
+        header.write(this.toOctal(0, 8), 108, 'ascii');
+        header.write(this.toOctal(0, 8), 116, 'ascii');
+        header.write(this.toOctal(size, 12), 124, 'ascii');
+        header.write(this.toOctal(mtime, 12), 136, 'ascii');
+        header.write(' '.repeat(8), 148, 'ascii');
+        header.write(type, 156, 'ascii');
+        header.write(linkName, 157, NAME_SIZE, 'utf8');
+        header.write(`${USTAR_MAGIC}\0`, 257, 'ascii');
+        header.write('00', 263, 'ascii');
+
+        const checksum = header.reduce((sum, byte) => sum + byte, 0);
+        header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+        return header;
+    }
+
+    private createPaxRecord(key: string, value: string): string {
+        // the length of a record includes the digits of the length itself
+        const recordLength = Buffer.byteLength(` ${key}=${value}\n`);
+        let length = recordLength + recordLength.toString().length;
+        length = recordLength + length.toString().length;
+
+        return `${length} ${key}=${value}\n`;
+    }
+
+    private readPaxRecords(data: Buffer): Map<string, string> {
+        const records = new Map<string, string>();
+        for (const record of data.toString('utf8').split('\n')) {
+            const match = /^\d+ ([^=]+)=([\s\S]*)$/.exec(record);
+            if (match) {
+                records.set(match[1], match[2]);
+            }
+        }
+
+        return records;
+    }
+
+    private readString(header: Buffer, offset: number, length: number): string {
+        const end = header.indexOf(0, offset);
+        return header.toString('utf8', offset, end === -1 || end > offset + length ? offset + length : end);
+    }
+
+    private toOctal(value: number, length: number): string {
+        return value.toString(8).padStart(length - 1, '0') + '\0';
+    }
+
+    private pad(data: Buffer): Buffer {
+        const remainder = data.length % BLOCK_SIZE;
+        return remainder ? Buffer.concat([data, Buffer.alloc(BLOCK_SIZE - remainder)]) : data;
+    }
+
+    private trimSlashes(name: string): string {
+        return name.replace(/^(\.\/|\/)+|\/+$/g, '');
+    }
+}
@@ -0,0 +1,50 @@
+import { FORWARD_SLASH_TOKEN } from "../global-constants";
+
+const PLACEHOLDER_EXPR = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const CONDITION_EXPR = /^\[(!?)([\w.-]+)\]/;
+/** The extension that keeps template files from being compiled with the project, it is removed from the rendered names */
+const TEMPLATE_EXTENSION = '.template';
+
+/**
+ * Renders the paths and the content of template files.
+ * `{{name}}` placeholders are replaced with the values of the variables. The files and directories whose name starts
+ * with `[name]` are only rendered if the variable is truthy, the ones starting with `[!name]` if it is falsy.
+ */
+export class TemplateRenderer {
+    constructor(private readonly variables: Record<string, string | number | boolean>) { }
+
+    /**
+     * @param templatePath The path of the file relative to the template directory
+     * @returns The rendered path or null if a condition in the path excludes the file
+     */
+    public renderPath(templatePath: string): string | null {
+        const segments: string[] = [];
+        for (let segment of templatePath.split(FORWARD_SLASH_TOKEN).filter(segment => segment.length)) {
+            const condition = segment.match(CONDITION_EXPR);
+            if (condition) {
+                const isNegated = condition[1] === '!';
+                if (!!this.getValue(condition[2]) === isNegated) {
+                    return null;
+                }
+                segment = segment.substring(condition[0].length);
+            }
+            segments.push(this.renderContent(segment));
+        }
+
+        const fileName = segments.pop()!;
+        return [...segments, fileName.endsWith(TEMPLATE_EXTENSION) ? fileName.slice(0, -TEMPLATE_EXTENSION.length) : fileName]
+            .join(FORWARD_SLASH_TOKEN);
+    }
+
+    public renderContent(content: string): string {
+        return content.replace(PLACEHOLDER_EXPR, (_, name: string) => `${this.getValue(name)}`);
+    }
+
+    private getValue(name: string): string | number | boolean {
+        if (!Object.prototype.hasOwnProperty.call(this.variables, name)) {
+            throw new Error(`The template variable ${name} is not defined.`);
+        }
+
+        return this.variables[name];
+    }
+}
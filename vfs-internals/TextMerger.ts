@@ -0,0 +1,91 @@
+import { DiffBuilder } from "./DiffBuilder";
+
+interface IMergeResult {
+    content: string;
+    hasConflicts: boolean;
+}
+
+/**
+ * Merges two versions of a text that were changed independently from the same base, line by line.
+ * Lines changed differently in both versions are kept between git style conflict markers.
+ */
+export class TextMerger {
+    private readonly _diffBuilder: DiffBuilder = new DiffBuilder();
+
+    /**
+     * @param base The text both versions were changed from
+     * @param ours The first version, it comes first in the conflicts
+     * @param theirs The second version
+     * @param labels The names of the versions written after the conflict markers
+     */
+    public merge(base: string, ours: string, theirs: string, labels: [string, string] = ['ours', 'theirs']): IMergeResult {
+        const baseLines = this._diffBuilder.splitLines(base);
+        const ourLines = this._diffBuilder.splitLines(ours);
+        const theirLines = this._diffBuilder.splitLines(theirs);
+        const ourMatches = this._diffBuilder.matchLines(baseLines, ourLines);
+        const theirMatches = this._diffBuilder.matchLines(baseLines, theirLines);
+
+        const output: string[] = [];
+        let hasConflicts = false;
+        let baseIndex = 0;
+        let ourIndex = 0;
+        let theirIndex = 0;
+        while (baseIndex < baseLines.length || ourIndex < ourLines.length || theirIndex < theirLines.length) {
+            if (baseIndex < baseLines.length
+                && ourMatches[baseIndex] === ourIndex
+                && theirMatches[baseIndex] === theirIndex) {
+                output.push(baseLines[baseIndex]);
+                baseIndex++;
+                ourIndex++;
+                theirIndex++;
+                continue;
+            }
+
+            // the changed chunk ends at the next base line both versions kept
+            let syncIndex = baseIndex;
+            while (syncIndex < baseLines.length && (ourMatches[syncIndex] === -1 || theirMatches[syncIndex] === -1)) {
+                syncIndex++;
+            }
+            const ourEnd = syncIndex < baseLines.length ? ourMatches[syncIndex] : ourLines.length;
+            const theirEnd = syncIndex < baseLines.length ? theirMatches[syncIndex] : theirLines.length;
+
+            const baseChunk = baseLines.slice(baseIndex, syncIndex);
+            const ourChunk = ourLines.slice(ourIndex, ourEnd);
+            const theirChunk = theirLines.slice(theirIndex, theirEnd);
+            if (this.equals(ourChunk, baseChunk)) {
+                output.push(...theirChunk);
+            } else if (this.equals(theirChunk, baseChunk) || this.equals(ourChunk, theirChunk)) {
+                output.push(...ourChunk);
+            } else {
+                hasConflicts = true;
+                output.push(
+                    `<<<<<<< ${labels[0]}\n`,
+                    ...this.terminate(ourChunk),
+                    '=======\n',
+                    ...this.terminate(theirChunk),
+                    `>>>>>>> ${labels[1]}\n`
+                );
+            }
+
+            baseIndex = syncIndex;
+            ourIndex = ourEnd;
+            theirIndex = theirEnd;
+        }
+
+        return { content: output.join(''), hasConflicts };
+    }
+
+    private equals(lines: string[], otherLines: string[]): boolean {
+        return lines.length === otherLines.length && lines.every((line, index) => line === otherLines[index]);
+    }
+
+    /**
+     * Adds a new line to the last line of a chunk so that the conflict marker after it starts a new line
+     */
+    private terminate(lines: string[]): string[] {
+        const lastLine = lines[lines.length - 1];
+        return lastLine === undefined || lastLine.endsWith('\n')
+            ? lines
+            : [...lines.slice(0, -1), lastLine + '\n'];
+    }
+}
@@ -0,0 +1,277 @@
+import path from "path";
+import { FORWARD_SLASH_TOKEN } from "../global-constants";
+import { FileEncoding, LineEnding } from "../types";
+import { VirtualDirectory } from "./VirtualDirectory";
+import { VirtualFile } from "./VirtualFile";
+import { VirtualSymlink } from "./VirtualSymlink";
+
+export interface IFileImage {
+    content: string;
+    encoding: FileEncoding;
+    hasBom: boolean;
+    lineEnding: LineEnding;
+    symlinkTarget?: string;
+}
+
+export interface IDirectoryImage {
+    isLoaded: boolean;
+    symlinkTarget?: string;
+}
+
+/**
+ * The state of the files, symbolic links and directories a change of a directory tree touches, keyed by path.
+ * The contents of the files are shared with the tree rather than copied. Paths mapped to null had nothing at them.
+ */
+export class TreeImage {
+    public readonly files: Map<string, IFileImage | null> = new Map<string, IFileImage | null>();
+    /** The links are never changed in place, so the image keeps the link objects */
+    public readonly symlinks: Map<string, VirtualSymlink | null> = new Map<string, VirtualSymlink | null>();
+    public readonly directories: Map<string, IDirectoryImage | null> = new Map<string, IDirectoryImage | null>();
+    /** The directories whose whole loaded tree is part of the image, the paths added below them are compared as well */
+    private readonly _trees: Set<string> = new Set<string>();
+
+    /**
+     * Adds the state of a file, the paths that already are in the image keep their state
+     */
+    public addFile(rootDir: VirtualDirectory, filePath: string): void {
+        filePath = path.posix.join(FORWARD_SLASH_TOKEN, filePath);
+        const file = rootDir.findFile(filePath);
+        this.setIfMissing(this.files, filePath, file ? this.toFileImage(file) : null);
+        this.addMissingDirectory(rootDir, path.posix.dirname(filePath));
+    }
+
+    /**
+     * Adds the state of a file whose content is about to change or that was just changed
+     * @param previousContent The content of the file before the change
+     */
+    public addModifiedFile(file: VirtualFile, previousContent = file.content): void {
+        this.setIfMissing(this.files, file.path, { ...this.toFileImage(file), content: previousContent });
+    }
+
+    public addSymlink(rootDir: VirtualDirectory, linkPath: string): void {
+        linkPath = path.posix.join(FORWARD_SLASH_TOKEN, linkPath);
+        this.setIfMissing(this.symlinks, linkPath, rootDir.findSymlink(linkPath));
+        this.addMissingDirectory(rootDir, path.posix.dirname(linkPath));
+    }
+
+    /**
+     * Adds a directory and the loaded part of the tree below it, the paths added to the tree later are compared as well
+     */
+    public addTree(rootDir: VirtualDirectory, dirPath: string): void {
+        dirPath = path.posix.join(FORWARD_SLASH_TOKEN, dirPath);
+        const dir = this.findDirectory(rootDir, dirPath);
+        if (!dir) {
+            this.addMissingDirectory(rootDir, dirPath);
+            return;
+        }
+
+        this._trees.add(dir.path);
+        this.addLoadedTree(dir);
+    }
+
+    /**
+     * Adds a file that was created at a path that was free, e.g. with a name chosen to avoid a conflict
+     */
+    public addNewFile(filePath: string): void {
+        this.setIfMissing(this.files, filePath, null);
+    }
+
+    /**
+     * Adds a directory tree that was created at a path that was free
+     */
+    public addNewTree(dirPath: string): void {
+        this.setIfMissing(this.directories, dirPath, null);
+        this._trees.add(dirPath);
+    }
+
+    /**
+     * Adds the files, links and subdirectories of a directory that was just loaded if it is part of a tree of the image
+     */
+    public addContents(dir: VirtualDirectory): void {
+        if (!this.isInTree(dir.path)) {
+            return;
+        }
+
+        dir.files.forEach(file => this.setIfMissing(this.files, file.path, this.toFileImage(file)));
+        dir.symlinks.forEach(link => this.setIfMissing(this.symlinks, link.path, link));
+        dir.subDirs.forEach(subdir => this.setIfMissing(this.directories, subdir.path, this.toDirectoryImage(subdir)));
+    }
+
+    /**
+     * Compares the image to the current state of its paths and of its trees
+     * @returns The state in this image of the paths that changed since it was taken
+     */
+    public getChanges(rootDir: VirtualDirectory): TreeImage {
+        const current = new TreeImage();
+        this.files.forEach((_, filePath) => {
+            const file = rootDir.findFile(filePath);
+            current.files.set(filePath, file ? this.toFileImage(file) : null);
+        });
+        this.symlinks.forEach((_, linkPath) => current.symlinks.set(linkPath, rootDir.findSymlink(linkPath)));
+        this.directories.forEach((_, dirPath) => {
+            const dir = this.findDirectory(rootDir, dirPath);
+            current.directories.set(dirPath, dir ? this.toDirectoryImage(dir) : null);
+        });
+        this._trees.forEach(dirPath => {
+            const dir = this.findDirectory(rootDir, dirPath);
+            if (dir) {
+                current.addLoadedTree(dir);
+            }
+        });
+
+        const changes = new TreeImage();
+        this.collectChanges(this.files, current.files, changes.files, (a, b) =>
+            a.content === b.content
+            && a.encoding === b.encoding
+            && a.hasBom === b.hasBom
+            && a.lineEnding === b.lineEnding
+            && a.symlinkTarget === b.symlinkTarget);
+        this.collectChanges(this.symlinks, current.symlinks, changes.symlinks, (a, b) =>
+            a.target === b.target && a.isDirectory === b.isDirectory);
+        // loading a directory does not change it
+        this.collectChanges(this.directories, current.directories, changes.directories, (a, b) =>
+            a.symlinkTarget === b.symlinkTarget);
+
+        return changes;
+    }
+
+    /**
+     * Brings the paths of the image in a tree back to their state in the image
+     * @param createDirectory Creates a directory that is missing in the tree
+     * @returns The image of the paths before they were brought back
+     */
+    public apply(
+        rootDir: VirtualDirectory,
+        createDirectory: (name: string, parentDir: VirtualDirectory, state: IDirectoryImage) => VirtualDirectory
+    ): TreeImage {
+        const previous = new TreeImage();
+        this.directories.forEach((_, dirPath) => {
+            const dir = this.findDirectory(rootDir, dirPath);
+            previous.directories.set(dirPath, dir ? this.toDirectoryImage(dir) : null);
+        });
+        this.files.forEach((_, filePath) => {
+            const file = rootDir.findFile(filePath);
+            previous.files.set(filePath, file ? this.toFileImage(file) : null);
+        });
+        this.symlinks.forEach((_, linkPath) => previous.symlinks.set(linkPath, rootDir.findSymlink(linkPath)));
+
+        // the directories are created before their contents and removed after them
+        const dirPaths = [...this.directories.keys()].sort();
+        dirPaths.forEach(dirPath => {
+            const state = this.directories.get(dirPath)!;
+            const dir = this.findDirectory(rootDir, dirPath);
+            if (state && dir) {
+                dir.symlinkTarget = state.symlinkTarget;
+            } else if (state) {
+                const parentDir = this.findDirectory(rootDir, path.posix.dirname(dirPath))!;
+                parentDir.subDirs.set(path.posix.basename(dirPath), createDirectory(path.posix.basename(dirPath), parentDir, state));
+            }
+        });
+        this.files.forEach((state, filePath) => {
+            const dir = this.findDirectory(rootDir, path.posix.dirname(filePath));
+            const name = path.posix.basename(filePath);
+            if (dir && state) {
+                dir.files.set(name, this.toFile(name, state, dir));
+            } else {
+                dir?.files.delete(name);
+            }
+        });
+        this.symlinks.forEach((link, linkPath) => {
+            const dir = this.findDirectory(rootDir, path.posix.dirname(linkPath));
+            const name = path.posix.basename(linkPath);
+            if (dir && link) {
+                dir.symlinks.set(name, link.clone(name, dir));
+            } else {
+                dir?.symlinks.delete(name);
+            }
+        });
+        dirPaths.reverse().filter(dirPath => !this.directories.get(dirPath)).forEach(dirPath => {
+            const dir = this.findDirectory(rootDir, dirPath);
+            dir?.parentDir?.subDirs.delete(dir.name);
+        });
+
+        return previous;
+    }
+
+    private toFileImage(file: VirtualFile): IFileImage {
+        return {
+            content: file.content,
+            encoding: file.encoding,
+            hasBom: file.hasBom,
+            lineEnding: file.lineEnding,
+            symlinkTarget: file.symlinkTarget
+        };
+    }
+
+    private toDirectoryImage(dir: VirtualDirectory): IDirectoryImage {
+        return { isLoaded: dir.isLoaded, symlinkTarget: dir.symlinkTarget };
+    }
+
+    private toFile(name: string, state: IFileImage, parentDir: VirtualDirectory): VirtualFile {
+        const file = new VirtualFile(name, '', parentDir);
+        file.encoding = state.encoding;
+        file.hasBom = state.hasBom;
+        file.content = state.content;
+        file.lineEnding = state.lineEnding;
+        file.symlinkTarget = state.symlinkTarget;
+        return file;
+    }
+
+    private collectChanges<T>(
+        previous: Map<string, T | null>,
+        current: Map<string, T | null>,
+        changes: Map<string, T | null>,
+        isSame: (a: T, b: T) => boolean
+    ): void {
+        new Set([...previous.keys(), ...current.keys()]).forEach(entryPath => {
+            const previousState = previous.get(entryPath) ?? null;
+            const currentState = current.get(entryPath) ?? null;
+            const isChanged = previousState && currentState
+                ? !isSame(previousState, currentState)
+                : previousState !== currentState;
+            if (isChanged) {
+                changes.set(entryPath, previousState);
+            }
+        });
+    }
+
+    private setIfMissing<T>(states: Map<string, T | null>, entryPath: string, state: T | null): void {
+        if (!states.has(entryPath)) {
+            states.set(entryPath, state);
+        }
+    }
+
+    private addLoadedTree(dir: VirtualDirectory): void {
+        this.setIfMissing(this.directories, dir.path, this.toDirectoryImage(dir));
+        if (!dir.isLoaded) {
+            return;
+        }
+
+        dir.files.forEach(file => this.setIfMissing(this.files, file.path, this.toFileImage(file)));
+        dir.symlinks.forEach(link => this.setIfMissing(this.symlinks, link.path, link));
+        dir.subDirs.forEach(subdir => this.addLoadedTree(subdir));
+    }
+
+    /**
+     * Adds the outermost directory of a path that does not exist, everything added below it is new
+     */
+    private addMissingDirectory(rootDir: VirtualDirectory, dirPath: string): void {
+        let missingPath: string | null = null;
+        for (let currentPath = dirPath; !this.findDirectory(rootDir, currentPath); currentPath = path.posix.dirname(currentPath)) {
+            missingPath = currentPath;
+        }
+        if (missingPath) {
+            this.setIfMissing(this.directories, missingPath, null);
+            this._trees.add(missingPath);
+        }
+    }
+
+    private findDirectory(rootDir: VirtualDirectory, dirPath: string): VirtualDirectory | undefined {
+        return dirPath === rootDir.path ? rootDir : rootDir.findSubDirectory(dirPath);
+    }
+
+    private isInTree(dirPath: string): boolean {
+        return [...this._trees].some(treePath =>
+            dirPath === treePath || dirPath.startsWith(treePath.endsWith(FORWARD_SLASH_TOKEN) ? treePath : treePath + FORWARD_SLASH_TOKEN));
+    }
+}
@@ -1,22 +1,31 @@
 import ts, { CompilerOptions } from "typescript";
-import * as fs from "fs";
-import {
-    VirtualTypeScriptEnvironment,
-    createFSBackedSystem,
-    createSystem,
-    createVirtualTypeScriptEnvironment,
-    createVirtualLanguageServiceHost
-} from "@typescript/vfs";
-import { ISourceManager } from "../types";
-import { NEW_LINE_PLACEHOLDER } from "../global-constants";
+import { createDefaultMapFromNodeModules } from "@typescript/vfs";
+import { ISourceManager, IStorageProvider } from "../types";
+import { FORWARD_SLASH_TOKEN, NEW_LINE_PLACEHOLDER, NODE_MODULES } from "../global-constants";
+
+const NEW_LINE_PLACEHOLDER_EXPR = new RegExp(`^[ \\t]*${NEW_LINE_PLACEHOLDER}[ \\t]*(?=\\r?$)`, 'gm');
 
 export class TypeScriptSourceManager implements ISourceManager {
+    /**
+     * @param parseConfigFile Parses the configs of referenced projects
+     * @param packageStorage The storage the files of the packages in `node_modules` are read from on demand, they are never written
+     */
     constructor(
-        private readonly root: string,
         private filesMap: Map<string, string>,
-        private readonly compilerOptions: CompilerOptions
+        private compilerOptions: CompilerOptions,
+        private readonly parseConfigFile?: (configPath: string) => ts.ParsedCommandLine | null,
+        private readonly packageStorage?: IStorageProvider
     ) { }
 
+    private _projectVersion = 0;
+    /** The root files of the program from the project config, every file of the VFS is a root file if not set */
+    private _rootFileNames: readonly string[] | undefined;
+    private _projectReferences: readonly ts.ProjectReference[] | undefined;
+    private readonly _scriptVersions: Map<string, number> = new Map<string, number>();
+    /** The package files read from the storage, null for the ones that do not exist */
+    private readonly _packageFiles: Map<string, string | null> = new Map<string, string | null>();
+    private readonly _packageDirectories: Map<string, string[] | null> = new Map<string, string[] | null>();
+
     private _languageServiceHost: ts.LanguageServiceHost | undefined;
     private get languageServiceHost(): ts.LanguageServiceHost {
         if (!this._languageServiceHost) {
@@ -26,16 +35,39 @@ export class TypeScriptSourceManager implements ISourceManager {
         return this._languageServiceHost;
     }
 
-    private _environment: VirtualTypeScriptEnvironment | undefined;
-    private get environment(): VirtualTypeScriptEnvironment {
-        if (!this._environment) {
-            this._environment = this.createEnvironment();
+    private _libFiles: Map<string, string> | undefined;
+    private get libFiles(): Map<string, string> {
+        if (!this._libFiles) {
+            this._libFiles = createDefaultMapFromNodeModules(this.compilerOptions, ts);
         }
-        return this._environment;
+        return this._libFiles;
     }
 
+    private _directories: Set<string> | undefined;
+    private get directories(): Set<string> {
+        if (!this._directories) {
+            this._directories = new Set<string>([FORWARD_SLASH_TOKEN]);
+            for (const fileName of this.filesMap.keys()) {
+                let dir = fileName.substring(0, fileName.lastIndexOf(FORWARD_SLASH_TOKEN));
+                while (dir && !this._directories.has(dir)) {
+                    this._directories.add(dir);
+                    dir = dir.substring(0, dir.lastIndexOf(FORWARD_SLASH_TOKEN));
+                }
+            }
+        }
+        return this._directories;
+    }
+
+    private _languageService: ts.LanguageService | undefined;
+    /**
+     * A single language service is kept for the lifetime of the source manager,
+     * it only re-parses and re-checks the files whose version changed since the last request
+     */
     public get languageService(): ts.LanguageService | undefined {
-        return ts.createLanguageService(this.languageServiceHost, ts.createDocumentRegistry());
+        if (!this._languageService) {
+            this._languageService = ts.createLanguageService(this.languageServiceHost, ts.createDocumentRegistry());
+        }
+        return this._languageService;
     }
 
     public getSourceFile(filePath: string, content: string): ts.SourceFile | undefined {
@@ -46,9 +78,34 @@ export class TypeScriptSourceManager implements ISourceManager {
         return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
     }
 
-    // TODO: use the TypeScriptSourceUpdate class to update the source file and apply the changes in the VFS
-    public updateSourceFile(sourceFile: ts.SourceFile, newContent: string) {
-        ts.updateSourceFile(sourceFile, newContent, { newLength: newContent.length, span: { start: 0, length: newContent.length } },);
+    /**
+     * Returns the text of a source file created by `getSourceFile` without the new line placeholders
+     */
+    public getSourceText(sourceFile: ts.SourceFile): string {
+        return sourceFile.text.replace(NEW_LINE_PLACEHOLDER_EXPR, '');
+    }
+
+    /**
+     * Runs the transformers over the source file and prints the result
+     * @returns The new content of the file or null if the transformers did not change the AST
+     */
+    public updateSourceFile(
+        sourceFile: ts.SourceFile,
+        transformers: ts.TransformerFactory<ts.SourceFile>[],
+        options?: ts.PrinterOptions
+    ): string | null {
+        const result = ts.transform(sourceFile, transformers, this.compilerOptions);
+        try {
+            const transformed = result.transformed[0];
+            if (transformed === sourceFile) {
+                return null;
+            }
+
+            return this.getSourceString(transformed, options)
+                .replace(NEW_LINE_PLACEHOLDER_EXPR, '');
+        } finally {
+            result.dispose();
+        }
     }
 
     public getSourceString(sourceFile: ts.SourceFile, options?: ts.PrinterOptions, handlers?: ts.PrintHandlers): string {
@@ -56,42 +113,109 @@ export class TypeScriptSourceManager implements ISourceManager {
         return printer.printFile(sourceFile);
     }
 
+    /**
+     * Updates the files of the program, only the files whose content changed or that were added get a new version
+     * @param filesMap The content of the files in the virtual file system keyed by path
+     */
     public updateEnvironment(filesMap: Map<string, string>): void {
+        let changed = false;
+        for (const [fileName, content] of filesMap) {
+            if (this.filesMap.get(fileName) !== content) {
+                this._scriptVersions.set(fileName, (this._scriptVersions.get(fileName) || 0) + 1);
+                changed = true;
+            }
+        }
+        for (const fileName of this.filesMap.keys()) {
+            if (!filesMap.has(fileName)) {
+                // the version is kept so that a file added again at the path is not taken for the removed one
+                changed = true;
+            }
+        }
+
         this.filesMap = filesMap;
-        this._environment = this.createEnvironment();
-        this._languageServiceHost = this.createLanguageServiceHost();
+        if (changed) {
+            this._projectVersion++;
+            this._directories = undefined;
+        }
+    }
+
+    /**
+     * Replaces the compiler options, root files and references of the program, e.g. after the tsconfig file changed
+     * @param rootFileNames The root files of the program, every file of the VFS is a root file if not provided
+     */
+    public updateProject(
+        compilerOptions: CompilerOptions,
+        rootFileNames?: readonly string[],
+        projectReferences?: readonly ts.ProjectReference[]
+    ): void {
+        this.compilerOptions = compilerOptions;
+        this._rootFileNames = rootFileNames;
+        this._projectReferences = projectReferences;
+        // the lib files depend on the target and lib options
+        this._libFiles = undefined;
+        this._projectVersion++;
+    }
+
+    private readFile(fileName: string): string | undefined {
+        return this.filesMap.get(fileName) ?? this.libFiles.get(fileName) ?? this.readPackageFile(fileName);
+    }
+
+    private readPackageFile(fileName: string): string | undefined {
+        if (!this.packageStorage || !this.isPackagePath(fileName)) {
+            return undefined;
+        }
+
+        if (!this._packageFiles.has(fileName)) {
+            this._packageFiles.set(fileName, this.packageStorage.readFile(fileName)?.toString() ?? null);
+        }
+        return this._packageFiles.get(fileName) ?? undefined;
+    }
+
+    /**
+     * Returns the names of the subdirectories of a package directory or null if it does not exist
+     */
+    private readPackageDirectory(dirPath: string): string[] | null {
+        if (!this.packageStorage || !this.isPackagePath(dirPath)) {
+            return null;
+        }
+
+        if (!this._packageDirectories.has(dirPath)) {
+            this._packageDirectories.set(dirPath, this.packageStorage.directoryExists(dirPath)
+                ? this.packageStorage.readDirectory(dirPath).filter(entry => entry.isDirectory).map(entry => entry.name)
+                : null);
+        }
+        return this._packageDirectories.get(dirPath)!;
     }
 
-    private createEnvironment(): VirtualTypeScriptEnvironment {
-        const targetSystem =
-            fs.existsSync(this.root) && fs.statSync(this.root).isDirectory()
-                ? createFSBackedSystem(this.filesMap, this.root, ts)
-                : createSystem(this.filesMap);
-        const env = createVirtualTypeScriptEnvironment(
-            targetSystem,
-            [],
-            ts,
-            this.compilerOptions
-        );
-
-        //#region these methods are not implemented in the virtual environment
-        // not needed atm but might be useful to implement them in the future
-        env.sys.write = (_s) => { }; // maybe include logging?
-        env.sys.getExecutingFilePath = () => '';
-        env.sys.createDirectory = (_path) => { };
-        env.sys.deleteFile = (_name) => { };
-        //#endregion
-
-        return env;
+    private isPackagePath(entryPath: string): boolean {
+        return entryPath.split(FORWARD_SLASH_TOKEN).includes(NODE_MODULES);
     }
 
-    private createLanguageServiceHost(): ts.LanguageServiceHost {
-        return createVirtualLanguageServiceHost(
-            this.environment.sys,
-            [...this.filesMap.keys()],
-            this.compilerOptions,
-            ts
-        )
-            .languageServiceHost;
+    private createLanguageServiceHost(): ts.LanguageServiceHost & { useSourceOfProjectReferenceRedirect(): boolean } {
+        return {
+            getProjectVersion: () => this._projectVersion.toString(),
+            // the lib files are always available to the program, while only the files of the VFS are its root files
+            getScriptFileNames: () => [...this._rootFileNames || this.filesMap.keys()].filter(fileName => !this.libFiles.has(fileName)),
+            getScriptVersion: (fileName) => (this._scriptVersions.get(fileName) || 0).toString(),
+            getScriptSnapshot: (fileName) => {
+                const content = this.readFile(fileName);
+                return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+            },
+            getCompilationSettings: () => this.compilerOptions,
+            getCurrentDirectory: () => FORWARD_SLASH_TOKEN,
+            getDefaultLibFileName: (options) => FORWARD_SLASH_TOKEN + ts.getDefaultLibFileName(options),
+            fileExists: (fileName) => this.readFile(fileName) !== undefined,
+            readFile: (fileName) => this.readFile(fileName),
+            directoryExists: (dirPath) => this.directories.has(dirPath.replace(/\/+$/, '') || FORWARD_SLASH_TOKEN)
+                || this.readPackageDirectory(dirPath) !== null,
+            // lists the packages in the type roots, e.g. `node_modules/@types`, whose types are included automatically
+            getDirectories: (dirPath) => this.readPackageDirectory(dirPath) || [],
+            useCaseSensitiveFileNames: () => true,
+            getNewLine: () => '\n',
+            getProjectReferences: () => this._projectReferences,
+            getParsedCommandLine: (configPath) => this.parseConfigFile?.(configPath) ?? undefined,
+            // referenced projects are compiled from their sources since their output is not built in the VFS
+            useSourceOfProjectReferenceRedirect: () => true
+        };
     }
 }
@@ -0,0 +1,101 @@
+import path from "path";
+import { FORWARD_SLASH_TOKEN } from "../global-constants";
+import { IVFSEvent, IWatchOptions } from "../types";
+import { GlobMatcher } from "./GlobMatcher";
+
+interface IEventFilter {
+    /** The watched directory, changes outside of it are not reported */
+    directory: string;
+    matcher: GlobMatcher | null;
+}
+
+interface ISubscription extends IEventFilter {
+    listener: (event: IVFSEvent) => void;
+}
+
+interface IBatchedSubscription extends IEventFilter {
+    listener: (events: IVFSEvent[]) => void;
+}
+
+/**
+ * Delivers the changes of the virtual file system to the subscribed listeners.
+ * Batched listeners receive the changes collected since the previous `flush()`.
+ */
+export class VFSEventEmitter {
+    private readonly _subscriptions: Set<ISubscription> = new Set<ISubscription>();
+    private readonly _batchedSubscriptions: Set<IBatchedSubscription> = new Set<IBatchedSubscription>();
+    private _pendingEvents: IVFSEvent[] = [];
+
+    public get hasSubscriptions(): boolean {
+        return this._subscriptions.size > 0 || this._batchedSubscriptions.size > 0;
+    }
+
+    public subscribe(listener: (event: IVFSEvent) => void, options: IWatchOptions = {}): () => void {
+        const subscription = { ...this.createFilter(options), listener };
+        this._subscriptions.add(subscription);
+        return () => this._subscriptions.delete(subscription);
+    }
+
+    public subscribeBatched(listener: (events: IVFSEvent[]) => void, options: IWatchOptions = {}): () => void {
+        const subscription = { ...this.createFilter(options), listener };
+        this._batchedSubscriptions.add(subscription);
+        return () => {
+            this._batchedSubscriptions.delete(subscription);
+            if (!this._batchedSubscriptions.size) {
+                this._pendingEvents = [];
+            }
+        };
+    }
+
+    public emit(event: IVFSEvent): void {
+        if (this._batchedSubscriptions.size) {
+            this._pendingEvents.push(event);
+        }
+
+        for (const subscription of [...this._subscriptions]) {
+            if (this.matches(subscription, event)) {
+                subscription.listener({ ...event });
+            }
+        }
+    }
+
+    /**
+     * Delivers the pending changes to the batched listeners
+     */
+    public flush(): void {
+        const events = this._pendingEvents;
+        this._pendingEvents = [];
+        for (const subscription of [...this._batchedSubscriptions]) {
+            const matchingEvents = events.filter(event => this.matches(subscription, event));
+            if (matchingEvents.length) {
+                subscription.listener(matchingEvents.map(event => ({ ...event })));
+            }
+        }
+    }
+
+    private createFilter(options: IWatchOptions): IEventFilter {
+        const patterns = options.patterns === undefined || Array.isArray(options.patterns)
+            ? options.patterns
+            : [options.patterns];
+        return {
+            directory: path.posix.join(FORWARD_SLASH_TOKEN, options.directory || ''),
+            matcher: patterns?.length ? new GlobMatcher(patterns, options.dot) : null
+        };
+    }
+
+    private matches(filter: IEventFilter, event: IVFSEvent): boolean {
+        // a file moved into or out of the watched paths is reported to both sides
+        return [event.path, event.previousPath].some(eventPath => {
+            if (eventPath === undefined) {
+                return false;
+            }
+
+            const relativePath = path.posix.relative(filter.directory, eventPath);
+            if (!relativePath || relativePath === '..' || relativePath.startsWith('../')) {
+                return false;
+            }
+
+            return !filter.matcher || filter.matcher.match(relativePath);
+        });
+    }
+}
@@ -0,0 +1,15 @@
+import { ChangeJournal } from "./ChangeJournal";
+import { VirtualDirectory } from "./VirtualDirectory";
+
+/**
+ * A point-in-time copy of the virtual directory tree and its pending changes
+ */
+export class VFSSnapshot {
+    public readonly createdAt: Date = new Date();
+
+    constructor(
+        public readonly name: string | undefined,
+        public readonly rootDir: VirtualDirectory,
+        public readonly changeJournal: ChangeJournal
+    ) { }
+}
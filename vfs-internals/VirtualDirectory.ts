@@ -1,21 +1,31 @@
 import { ISourceManager } from "../types/ISourceManager";
 import { VirtualFile } from "./VirtualFile";
+import { VirtualSymlink } from "./VirtualSymlink";
 import { FORWARD_SLASH_TOKEN } from "../global-constants";
 import path from "path";
-import { VFSLanguageService } from "../types";
+import ts from "typescript";
+import { ConflictPolicy, IFileChangeTracker, IVFSEvent, IWatchOptions, VFSLanguageService } from "../types";
 
 export class VirtualDirectory {
-    public readonly subDirs: Map<string, VirtualDirectory>;
-    public readonly files: Map<string, VirtualFile>;
+    private readonly _subDirs: Map<string, VirtualDirectory>;
+    private readonly _files: Map<string, VirtualFile>;
+    private readonly _symlinks: Map<string, VirtualSymlink>;
+    private _loader: ((dir: VirtualDirectory) => void) | undefined;
     public readonly path: string = '/';
+    public readonly changeTracker?: IFileChangeTracker;
+    /** The target of the symbolic link the directory was loaded through, its contents are the ones of the target */
+    public symlinkTarget?: string;
 
     constructor(
         public readonly name: string,
         public readonly parentDir: VirtualDirectory | null,
-        public readonly sourceManager?: ISourceManager
+        public readonly sourceManager?: ISourceManager,
+        changeTracker?: IFileChangeTracker
     ) {
-        this.subDirs = new Map<string, VirtualDirectory>();
-        this.files = new Map<string, VirtualFile>();
+        this._subDirs = new Map<string, VirtualDirectory>();
+        this._files = new Map<string, VirtualFile>();
+        this._symlinks = new Map<string, VirtualSymlink>();
+        this.changeTracker = changeTracker || parentDir?.changeTracker;
         if (parentDir) {
             this.path = path.posix.join(parentDir.path + FORWARD_SLASH_TOKEN, name);
             this.name = path.posix.normalize(name).substring(name.lastIndexOf(FORWARD_SLASH_TOKEN) + 1) || this.name;
@@ -24,10 +34,55 @@ export class VirtualDirectory {
         }
     }
 
+    public get subDirs(): Map<string, VirtualDirectory> {
+        this.load();
+        return this._subDirs;
+    }
+
+    public get files(): Map<string, VirtualFile> {
+        this.load();
+        return this._files;
+    }
+
+    /**
+     * The symbolic links in the directory that are not followed
+     */
+    public get symlinks(): Map<string, VirtualSymlink> {
+        this.load();
+        return this._symlinks;
+    }
+
+    /**
+     * Whether the contents of the directory were loaded, directories with deferred loading are loaded on first access
+     */
+    public get isLoaded(): boolean {
+        return !this._loader;
+    }
+
     public get languageService(): VFSLanguageService | undefined {
         return this.sourceManager?.languageService;
     }
 
+    /**
+     * Subscribes to the changes under the directory, the listener is called as soon as a change happens
+     * @param listener Receives every change matching the options
+     * @param options Limits the reported changes to glob patterns relative to the directory
+     * @returns A function that removes the subscription
+     */
+    public watch(listener: (event: IVFSEvent) => void, options: Omit<IWatchOptions, 'directory'> = {}): () => void {
+        return this.getChangeTracker().watch(listener, { ...options, directory: this.path });
+    }
+
+    /**
+     * Subscribes to the changes under the directory, the listener receives the changes once per flush
+     * @param listener Receives the changes matching the options made since the previous flush
+     * @param options Limits the reported changes to glob patterns relative to the directory
+     * @returns A function that removes the subscription
+     */
+    public watchBatched(listener: (events: IVFSEvent[]) => void, options: Omit<IWatchOptions, 'directory'> = {}): () => void {
+        return this.getChangeTracker().watchBatched(listener, { ...options, directory: this.path });
+    }
+
     public findSubDirectory(searchPath: string): VirtualDirectory | undefined {
         const normalizedSearchPath = path.posix.normalize(searchPath);
         const parts = normalizedSearchPath.split(FORWARD_SLASH_TOKEN).filter(p => p.length);
@@ -116,9 +171,34 @@ export class VirtualDirectory {
         return null;
     }
 
+    public findSymlink(searchPath: string): VirtualSymlink | null {
+        const parts = path.posix.normalize(searchPath).split(FORWARD_SLASH_TOKEN).filter(p => p.length);
+        const linkName = parts.pop();
+        const containingDir = parts.length ? this.findSubDirectory(parts.join(FORWARD_SLASH_TOKEN)) : this;
+        return linkName && containingDir?.symlinks.get(linkName) || null;
+    }
+
+    /**
+     * Adds a symbolic link, the missing directories of its path are created
+     * @param linkPath The path of the link relative to the directory
+     * @param target The path the link points to
+     */
+    public addSymlink(linkPath: string, target: string): VirtualSymlink {
+        const parts = linkPath.split(FORWARD_SLASH_TOKEN);
+        const linkName = parts.pop();
+        if (!linkName) {
+            throw new Error('Link name must be provided');
+        }
+
+        const directory = this.getOrCreateSubDir(parts.join(FORWARD_SLASH_TOKEN), this.sourceManager!);
+        const link = new VirtualSymlink(linkName, target, directory);
+        directory.symlinks.set(linkName, link);
+        return link;
+    }
+
     public addFile(file: VirtualFile): VirtualFile;
-    public addFile(filePath: string | VirtualFile, content: string): VirtualFile;
-    public addFile(pathOrFile: string | VirtualFile, content: string = ''): VirtualFile {
+    public addFile(filePath: string | VirtualFile, content: string | Buffer): VirtualFile;
+    public addFile(pathOrFile: string | VirtualFile, content: string | Buffer = ''): VirtualFile {
         if (pathOrFile instanceof VirtualFile) {
             this.files.set(pathOrFile.name, pathOrFile);
             return pathOrFile;
@@ -137,7 +217,18 @@ export class VirtualDirectory {
         }
     }
 
-    public moveFile(file: VirtualFile, target: VirtualDirectory, newFileName?: string): VirtualFile | null {
+    /**
+     * Moves a file to another directory
+     * @param file The file to move
+     * @param target The directory to move the file to
+     * @param newFileName Optional new name of the file
+     * @param updateImports Whether to rewrite the relative imports of and to the moved file
+     */
+    public moveFile(file: VirtualFile, target: VirtualDirectory, newFileName?: string, updateImports = true): VirtualFile | null {
+        if (updateImports) {
+            this.updateImportsForMove(file.path, path.posix.join(target.path, newFileName || file.name));
+        }
+
         const existingFile = target.files.get(file.name);
         const clone = this.cloneFile(newFileName || file.name, file, target);
         let success = true;
@@ -174,7 +265,222 @@ export class VirtualDirectory {
         return this.files.delete(file.name);
     }
 
+    /**
+     * Moves a subdirectory with all of its contents into another directory
+     * @param dir The subdirectory to move
+     * @param target The directory to move the subdirectory into, it can not be inside the moved one
+     * @param newDirName Optional new name of the directory
+     * @param conflictPolicy What to do if the target already has a directory with the same name
+     * @param updateImports Whether to rewrite the relative imports of and to the moved files
+     * @returns The directory the contents were moved to or null if nothing was moved
+     */
+    public moveDirectory(
+        dir: VirtualDirectory,
+        target: VirtualDirectory,
+        newDirName?: string,
+        conflictPolicy = ConflictPolicy.Fail,
+        updateImports = true
+    ): VirtualDirectory | null {
+        if (dir.isAncestorOf(target)) {
+            return null;
+        }
+        if (target === this && (newDirName || dir.name) === dir.name) {
+            return dir;
+        }
+
+        const dirName = this.resolveDirName(target, newDirName || dir.name, conflictPolicy);
+        if (!dirName) {
+            return null;
+        }
+
+        if (updateImports) {
+            this.updateImportsForMove(dir.path, path.posix.join(target.path, dirName));
+        }
+
+        const movedDir = this.placeDirectory(dir, target, dirName, conflictPolicy);
+        this.subDirs.delete(dir.name);
+        return movedDir;
+    }
+
+    /**
+     * Copies a directory with all of its contents into another directory
+     * @param dir The directory to copy
+     * @param target The directory to copy the directory into, it can not be inside the copied one
+     * @param newDirName Optional name of the copy
+     * @param conflictPolicy What to do if the target already has a directory with the same name
+     * @returns The directory the contents were copied to or null if nothing was copied
+     */
+    public copyDirectory(
+        dir: VirtualDirectory,
+        target: VirtualDirectory,
+        newDirName?: string,
+        conflictPolicy = ConflictPolicy.AutoSuffix
+    ): VirtualDirectory | null {
+        if (dir.isAncestorOf(target)) {
+            return null;
+        }
+
+        const dirName = this.resolveDirName(target, newDirName || dir.name, conflictPolicy);
+        return dirName ? this.placeDirectory(dir, target, dirName, conflictPolicy) : null;
+    }
+
+    /**
+     * Defers loading the contents of the directory until its files or subdirectories are accessed
+     * @param loader Populates the directory, it is called at most once
+     */
+    public deferLoading(loader: (dir: VirtualDirectory) => void): void {
+        this._loader = loader;
+    }
+
+    /**
+     * Creates a deep copy of the directory tree, the contents of the files are shared between the copies.
+     * Directories that are not loaded yet are loaded by the copy on first access.
+     * @param parentDir The directory the copy is attached to
+     * @param name The name of the copy
+     */
+    public clone(parentDir: VirtualDirectory | null = this.parentDir, name = this.name): VirtualDirectory {
+        const dirClone = new VirtualDirectory(name, parentDir, this.sourceManager, this.changeTracker);
+        dirClone.symlinkTarget = this.symlinkTarget;
+        if (this._loader) {
+            dirClone.deferLoading(this._loader);
+            return dirClone;
+        }
+
+        this.subDirs.forEach((subdir, name) => {
+            dirClone.subDirs.set(name, subdir.clone(dirClone));
+        });
+        this.files.forEach((file, name) => {
+            dirClone.files.set(name, this.cloneFile(name, file, dirClone));
+        });
+        this.symlinks.forEach((link, name) => {
+            dirClone.symlinks.set(name, link.clone(name, dirClone));
+        });
+
+        return dirClone;
+    }
+
+    /**
+     * Returns the name a directory gets in the target or null if the conflict policy does not allow placing it there
+     */
+    private resolveDirName(target: VirtualDirectory, dirName: string, conflictPolicy: ConflictPolicy): string | null {
+        if (!target.subDirs.has(dirName)) {
+            return dirName;
+        }
+
+        switch (conflictPolicy) {
+            case ConflictPolicy.Fail:
+                return null;
+            case ConflictPolicy.AutoSuffix: {
+                let counter = 1;
+                while (target.subDirs.has(`${dirName}(${counter})`)) {
+                    counter++;
+                }
+                return `${dirName}(${counter})`;
+            }
+            default:
+                return dirName;
+        }
+    }
+
+    private placeDirectory(
+        dir: VirtualDirectory,
+        target: VirtualDirectory,
+        dirName: string,
+        conflictPolicy: ConflictPolicy
+    ): VirtualDirectory {
+        const existingDir = target.subDirs.get(dirName);
+        if (existingDir === dir) {
+            return dir;
+        }
+        if (existingDir && conflictPolicy === ConflictPolicy.Merge) {
+            existingDir.merge(dir);
+            return existingDir;
+        }
+
+        // the copy is loaded from the new path otherwise
+        dir.loadTree();
+        const dirClone = dir.clone(target, dirName);
+        target.subDirs.set(dirName, dirClone);
+        return dirClone;
+    }
+
+    private merge(dir: VirtualDirectory): void {
+        dir.files.forEach((file, name) => {
+            this.files.set(name, this.cloneFile(name, file, this));
+        });
+        dir.symlinks.forEach((link, name) => {
+            this.symlinks.set(name, link.clone(name, this));
+        });
+        dir.subDirs.forEach((subdir, name) => {
+            const existingDir = this.subDirs.get(name);
+            if (existingDir) {
+                existingDir.merge(subdir);
+            } else {
+                subdir.loadTree();
+                this.subDirs.set(name, subdir.clone(this));
+            }
+        });
+    }
+
+    private loadTree(): void {
+        this.subDirs.forEach(subdir => subdir.loadTree());
+    }
+
+    private isAncestorOf(dir: VirtualDirectory): boolean {
+        let currentDir: VirtualDirectory | null = dir;
+        while (currentDir) {
+            if (currentDir === this) {
+                return true;
+            }
+            currentDir = currentDir.parentDir;
+        }
+
+        return false;
+    }
+
+    private updateImportsForMove(oldPath: string, newPath: string): void {
+        if (newPath === oldPath) {
+            return;
+        }
+
+        const edits = this.languageService?.getEditsForFileRename?.(
+            oldPath,
+            newPath,
+            ts.getDefaultFormatCodeSettings(),
+            {}
+        ) || [];
+        const rootDir = this.getRootDir();
+        for (const fileEdits of edits) {
+            rootDir.findFile(fileEdits.fileName)?.applyTextChanges(fileEdits.textChanges);
+        }
+    }
+
+    private load(): void {
+        const loader = this._loader;
+        if (loader) {
+            this._loader = undefined;
+            loader(this);
+        }
+    }
+
+    private getChangeTracker(): IFileChangeTracker {
+        if (!this.changeTracker) {
+            throw new Error(`The directory ${this.path} is not part of a virtual file system.`);
+        }
+
+        return this.changeTracker;
+    }
+
+    private getRootDir(): VirtualDirectory {
+        let rootDir: VirtualDirectory = this;
+        while (rootDir.parentDir) {
+            rootDir = rootDir.parentDir;
+        }
+
+        return rootDir;
+    }
+
     private cloneFile(newFileName: string, file: VirtualFile, target: VirtualDirectory): VirtualFile {
-        return new VirtualFile(newFileName, file.content, target);
+        return file.clone(newFileName, target);
     }
 }
@@ -2,27 +2,196 @@ import { VirtualDirectory } from "./VirtualDirectory";
 import { FORWARD_SLASH_TOKEN, DOT_TOKEN } from "../global-constants";
 import path from "path";
 import ts from "typescript";
+import { FileEncoding, IImportOptions, IImportRemovalOptions, LineEnding } from "../types";
+import { FileContentCodec } from "./FileContentCodec";
+import { ImportEditor } from "./ImportEditor";
+
+const codec = new FileContentCodec();
 
 export class VirtualFile {
     public readonly path: string = '';
     public readonly extension: string = '';
+    /** The encoding the content is written to the storage with */
+    public encoding: FileEncoding = FileEncoding.Utf8;
+    /** Whether the content is written to the storage with a byte order mark */
+    public hasBom = false;
+    /** The line ending of the file, edits made through the API keep it */
+    public lineEnding: LineEnding = LineEnding.LF;
+    /** The target of the symbolic link the file was loaded through */
+    public symlinkTarget?: string;
+    private _content = '';
   
+    /**
+     * @param content The text of the file or its bytes, the encoding of bytes is detected
+     */
     constructor(
       public readonly name: string,
-      public content: string,
+      content: string | Buffer,
       public readonly parentDir: VirtualDirectory
     ) {
       this.extension = this.getExtension(name);
       this.path = path.posix.join(parentDir.path + FORWARD_SLASH_TOKEN, name);
+      if (Buffer.isBuffer(content)) {
+        this.buffer = content;
+      } else {
+        this.content = content;
+      }
+    }
+
+    /**
+     * The text of the file, the bytes of binary files are mapped to the characters of the latin1 encoding
+     */
+    public get content(): string {
+      return this._content;
+    }
+
+    public set content(value: string) {
+      this._content = value;
+      if (!this.isBinary) {
+        this.lineEnding = codec.detectLineEnding(value) || this.lineEnding;
+      }
+    }
+
+    public get isBinary(): boolean {
+      return this.encoding === FileEncoding.Binary;
+    }
+
+    /**
+     * The bytes of the file in its encoding
+     */
+    public get buffer(): Buffer {
+      return this.toBuffer();
+    }
+
+    public set buffer(value: Buffer) {
+      const { encoding, hasBom } = codec.detect(value);
+      this.encoding = encoding;
+      this.hasBom = hasBom;
+      this.content = codec.decode(value, encoding, hasBom);
+    }
+
+    /**
+     * Encodes the content of the file
+     * @param lineEnding Converts the line endings of text files before encoding them
+     */
+    public toBuffer(lineEnding?: LineEnding): Buffer {
+      const content = lineEnding && !this.isBinary
+        ? codec.convertLineEndings(this._content, lineEnding)
+        : this._content;
+      return codec.encode(content, this.encoding, this.hasBom);
+    }
+
+    /**
+     * Creates a copy of the file in another directory that keeps its encoding and line ending
+     */
+    public clone(name: string, parentDir: VirtualDirectory): VirtualFile {
+      const fileClone = new VirtualFile(name, '', parentDir);
+      fileClone._content = this._content;
+      fileClone.encoding = this.encoding;
+      fileClone.hasBom = this.hasBom;
+      fileClone.lineEnding = this.lineEnding;
+      fileClone.symlinkTarget = this.symlinkTarget;
+      return fileClone;
     }
   
     public get sourceFile(): ts.SourceFile | undefined {
       return this.parentDir.sourceManager?.getSourceFile(this.path, this.content);
     }
   
-    public updateSourceFile(): void {
-      // TODO: use the TypeScriptFileUpdate to modify the actual AST of the file and then update the VFS
-      throw new Error('Not implemented');
+    /**
+     * Applies the transformers to the AST of the file and writes the printed result back to its content
+     * @returns Whether the content of the file changed
+     */
+    public updateSourceFile(...transformers: ts.TransformerFactory<ts.SourceFile>[]): boolean {
+      const sourceFile = this.sourceFile;
+      if (!sourceFile || !transformers.length) {
+        return false;
+      }
+
+      const newContent = this.parentDir.sourceManager!.updateSourceFile(sourceFile, transformers);
+      return newContent !== null && this.setContent(newContent);
+    }
+
+    /**
+     * Adds named, default or namespace imports to the file, merging them into the existing declarations
+     * of the same module. Adds a side-effect import if no imported names are provided.
+     * @returns Whether the content of the file changed
+     */
+    public addImport(options: IImportOptions): boolean {
+      return this.editImports(editor => editor.addImport(options));
+    }
+
+    public addSideEffectImport(moduleSpecifier: string): boolean {
+      return this.editImports(editor => editor.addSideEffectImport(moduleSpecifier));
+    }
+
+    /**
+     * Removes imports of a module
+     * @param moduleSpecifier The module to remove the imports of
+     * @param options The imports to remove, every import of the module is removed if not provided
+     */
+    public removeImport(moduleSpecifier: string, options?: IImportRemovalOptions): boolean {
+      return this.editImports(editor => editor.removeImport(moduleSpecifier, options));
+    }
+
+    /**
+     * Changes the imported name of a named import, the local name of the import is kept
+     */
+    public renameImport(moduleSpecifier: string, name: string, newName: string): boolean {
+      return this.editImports(editor => editor.renameImport(moduleSpecifier, name, newName));
+    }
+
+    public renameModuleSpecifier(moduleSpecifier: string, newModuleSpecifier: string): boolean {
+      return this.editImports(editor => editor.renameModuleSpecifier(moduleSpecifier, newModuleSpecifier));
+    }
+
+    /**
+     * Merges the import declarations of the same module
+     * @param moduleSpecifier Limits the merge to the imports of a single module
+     */
+    public mergeImports(moduleSpecifier?: string): boolean {
+      return this.editImports(editor => editor.mergeImports(moduleSpecifier));
+    }
+
+    /**
+     * Applies text changes, e.g. the ones returned by the language service, to the content of the file
+     * @returns Whether the content of the file changed
+     */
+    public applyTextChanges(changes: readonly ts.TextChange[]): boolean {
+      // changes are applied back to front so that the positions of the rest stay valid
+      const sortedChanges = [...changes].sort((a, b) => b.span.start - a.span.start);
+      let newContent = this.content;
+      for (const change of sortedChanges) {
+        newContent = newContent.substring(0, change.span.start)
+          + change.newText
+          + newContent.substring(change.span.start + change.span.length);
+      }
+
+      return this.setContent(newContent);
+    }
+
+    private editImports(edit: (editor: ImportEditor) => void): boolean {
+      const sourceFile = this.sourceFile;
+      if (!sourceFile) {
+        return false;
+      }
+
+      const editor = new ImportEditor(sourceFile);
+      edit(editor);
+      return this.setContent(this.parentDir.sourceManager!.getSourceText(editor.sourceFile));
+    }
+
+    private setContent(newContent: string): boolean {
+      // the printer and the language service insert line feeds, they are converted to the line ending of the file
+      newContent = codec.convertLineEndings(newContent, this.lineEnding);
+      if (newContent === this.content) {
+        return false;
+      }
+
+      const previousContent = this.content;
+      this._content = newContent;
+      this.parentDir.changeTracker?.markModified(this.path, previousContent);
+      return true;
     }
   
     private getExtension(fileName: string): string {
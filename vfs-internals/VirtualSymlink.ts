@@ -0,0 +1,34 @@
+import path from "path";
+import { FORWARD_SLASH_TOKEN } from "../global-constants";
+import { VirtualDirectory } from "./VirtualDirectory";
+
+/**
+ * A symbolic link in the virtual file system, the target is kept as it is stored and not followed
+ */
+export class VirtualSymlink {
+    public readonly path: string;
+
+    /**
+     * @param target The path the link points to, relative paths start at the directory of the link
+     * @param isDirectory Whether the target is a directory, false for links whose target does not exist
+     */
+    constructor(
+        public readonly name: string,
+        public readonly target: string,
+        public readonly parentDir: VirtualDirectory,
+        public readonly isDirectory = false
+    ) {
+        this.path = path.posix.join(parentDir.path + FORWARD_SLASH_TOKEN, name);
+    }
+
+    /**
+     * The absolute path of the target
+     */
+    public get targetPath(): string {
+        return path.posix.resolve(this.parentDir.path, this.target);
+    }
+
+    public clone(name: string, parentDir: VirtualDirectory): VirtualSymlink {
+        return new VirtualSymlink(name, this.target, parentDir, this.isDirectory);
+    }
+}
@@ -0,0 +1,174 @@
+import * as zlib from "zlib";
+import { FORWARD_SLASH_TOKEN } from "../global-constants";
+import { IArchiveEntry } from "../types";
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const VERSION = 20;
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+const DIRECTORY_ATTRIBUTE = 0x10;
+const UNIX_HOST = 3;
+const FILE_TYPE_MASK = 0o170000;
+const SYMBOLIC_LINK_MODE = 0o120000;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+/**
+ * Reads and writes zip archives, only the stored and deflated compression methods are supported.
+ * Symbolic links are stored the way Info-ZIP does, as unix mode in the external attributes and the target as content.
+ */
+export class ZipArchive {
+    public read(buffer: Buffer): IArchiveEntry[] {
+        const endOffset = this.findEndOfCentralDirectory(buffer);
+        const entryCount = buffer.readUInt16LE(endOffset + 10);
+        let offset = buffer.readUInt32LE(endOffset + 16);
+        const entries: IArchiveEntry[] = [];
+        for (let i = 0; i < entryCount; i++) {
+            if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+                throw new Error('Invalid zip archive, the central directory is corrupted.');
+            }
+
+            const method = buffer.readUInt16LE(offset + 10);
+            const compressedSize = buffer.readUInt32LE(offset + 20);
+            const nameLength = buffer.readUInt16LE(offset + 28);
+            const extraLength = buffer.readUInt16LE(offset + 30);
+            const commentLength = buffer.readUInt16LE(offset + 32);
+            const externalAttributes = buffer.readUInt32LE(offset + 38);
+            const localOffset = buffer.readUInt32LE(offset + 42);
+            const name = buffer.toString('utf8', offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength);
+            offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+            if (name.endsWith(FORWARD_SLASH_TOKEN)) {
+                entries.push({ path: this.trimSlashes(name), content: null });
+                continue;
+            }
+
+            const dataOffset = localOffset + LOCAL_HEADER_SIZE
+                + buffer.readUInt16LE(localOffset + 26)
+                + buffer.readUInt16LE(localOffset + 28);
+            const data = buffer.subarray(dataOffset, dataOffset + compressedSize);
+            const content = this.decompress(data, method, name);
+            // the upper half of the external attributes holds the unix mode
+            if (((externalAttributes >>> 16) & FILE_TYPE_MASK) === SYMBOLIC_LINK_MODE) {
+                entries.push({ path: this.trimSlashes(name), content: null, linkTarget: content.toString('utf8') });
+            } else {
+                entries.push({ path: this.trimSlashes(name), content });
+            }
+        }
+
+        return entries;
+    }
+
+    public write(entries: IArchiveEntry[]): Buffer {
+        const localParts: Buffer[] = [];
+        const centralParts: Buffer[] = [];
+        const [time, date] = this.toDosDateTime(new Date());
+        let offset = 0;
+        for (const entry of entries) {
+            const isLink = entry.linkTarget !== undefined;
+            const isDirectory = entry.content === null && !isLink;
+            const name = Buffer.from(entry.path + (isDirectory ? FORWARD_SLASH_TOKEN : ''), 'utf8');
+            const content = isLink ? Buffer.from(entry.linkTarget!, 'utf8') : entry.content || Buffer.alloc(0);
+            const deflated = zlib.deflateRawSync(content);
+            const method = deflated.length < content.length ? DEFLATED : STORED;
+            const data = method === DEFLATED ? deflated : content;
+            const crc = this.crc32(content);
+
+            const localHeader = Buffer.alloc(LOCAL_HEADER_SIZE);
+            localHeader.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+            localHeader.writeUInt16LE(VERSION, 4);
+            localHeader.writeUInt16LE(UTF8_FLAG, 6);
+            localHeader.writeUInt16LE(method, 8);
+            localHeader.writeUInt16LE(time, 10);
+            localHeader.writeUInt16LE(date, 12);
+            localHeader.writeUInt32LE(crc, 14);
+            localHeader.writeUInt32LE(data.length, 18);
+            localHeader.writeUInt32LE(content.length, 22);
+            localHeader.writeUInt16LE(name.length, 26);
+            localParts.push(localHeader, name, data);
+
+            const centralHeader = Buffer.alloc(CENTRAL_HEADER_SIZE);
+            centralHeader.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+            centralHeader.writeUInt16LE(isLink ? (UNIX_HOST << 8) | VERSION : VERSION, 4);
+            centralHeader.writeUInt16LE(VERSION, 6);
+            centralHeader.writeUInt16LE(UTF8_FLAG, 8);
+            centralHeader.writeUInt16LE(method, 10);
+            centralHeader.writeUInt16LE(time, 12);
+            centralHeader.writeUInt16LE(date, 14);
+            centralHeader.writeUInt32LE(crc, 16);
+            centralHeader.writeUInt32LE(data.length, 20);
+            centralHeader.writeUInt32LE(content.length, 24);
+            centralHeader.writeUInt16LE(name.length, 28);
+            centralHeader.writeUInt32LE(isLink ? (SYMBOLIC_LINK_MODE | 0o777) * 0x10000 : isDirectory ? DIRECTORY_ATTRIBUTE : 0, 38);
+            centralHeader.writeUInt32LE(offset, 42);
+            centralParts.push(centralHeader, name);
+
+            offset += LOCAL_HEADER_SIZE + name.length + data.length;
+        }
+
+        const centralDirectory = Buffer.concat(centralParts);
+        const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE);
+        end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+        end.writeUInt16LE(entries.length, 8);
+        end.writeUInt16LE(entries.length, 10);
+        end.writeUInt32LE(centralDirectory.length, 12);
+        end.writeUInt32LE(offset, 16);
+
+        return Buffer.concat([...localParts, centralDirectory, end]);
+    }
+
+    private findEndOfCentralDirectory(buffer: Buffer): number {
+        // the record is followed by a comment of variable length
+        const lowestOffset = Math.max(0, buffer.length - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+        for (let offset = buffer.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= lowestOffset; offset--) {
+            if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+                return offset;
+            }
+        }
+
+        throw new Error('Invalid zip archive, the end of the central directory could not be found.');
+    }
+
+    private decompress(data: Buffer, method: number, name: string): Buffer {
+        switch (method) {
+            case STORED:
+                return Buffer.from(data);
+            case DEFLATED:
+                return zlib.inflateRawSync(data);
+            default:
+                throw new Error(`Unsupported compression method ${method} of ${name}.`);
+        }
+    }
+
+    private crc32(data: Buffer): number {
+        let crc = 0xffffffff;
+        for (const byte of data) {
+            crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+        }
+
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+
+    private toDosDateTime(date: Date): [number, number] {
+        const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+        const dosDate = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+        return [time, dosDate];
+    }
+
+    private trimSlashes(name: string): string {
+        return name.replace(/^\/+|\/+$/g, '');
+    }
+}